@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { type Har, type HarEntry, insertHarReplayHook, recordHar } from "./har";
+import { insertXhrHook, uninstallXhrHook } from "./index";
+import { sendXhr } from "./test-utils";
+
+describe("xhr-hook/har", () => {
+  afterEach(() => {
+    uninstallXhrHook();
+  });
+
+  it("should record hooked and pass-through requests", async () => {
+    const recorder = recordHar();
+    insertXhrHook("mock", (request) => {
+      if (!request.url.startsWith("https://example.com/")) {
+        return undefined;
+      }
+      return async () =>
+        Response.json({ ok: true }, { headers: { "X-Mock": "1" } });
+    });
+
+    await sendXhr("POST", "https://example.com/api?page=1", {
+      body: "payload",
+    });
+    await sendXhr("GET", "data:text/plain,hello");
+    recorder.stop();
+    await sendXhr("GET", "https://example.com/after-stop");
+
+    const har = await recorder.getHar();
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.entries).toHaveLength(2);
+
+    const [hooked, passThrough] = har.log.entries;
+    expect(hooked._handledBy).toBe("mock");
+    expect(hooked.request.method).toBe("POST");
+    expect(hooked.request.queryString).toEqual([{ name: "page", value: "1" }]);
+    expect(hooked.request.postData?.text).toBe("payload");
+    expect(hooked.response.status).toBe(200);
+    expect(hooked.response.content.text).toBe('{"ok":true}');
+    expect(hooked.response.headers).toContainEqual({
+      name: "x-mock",
+      value: "1",
+    });
+
+    expect(passThrough._handledBy).toBeUndefined();
+    expect(passThrough.response.content.text).toBe("hello");
+  });
+
+  it("should record binary request bodies and decode responses by charset", async () => {
+    const recorder = recordHar();
+    insertXhrHook(
+      "mock",
+      () => async () =>
+        new Response(new Uint8Array([0x82, 0xa0]), {
+          headers: { "Content-Type": "text/plain; charset=shift_jis" },
+        }),
+    );
+
+    const body = new Uint8Array([0x00, 0xff, 0x01]);
+    await sendXhr("POST", "https://example.com/upload", { body });
+    const har = await recorder.getHar();
+    recorder.stop();
+
+    const [entry] = har.log.entries;
+    expect(entry.request.postData).toEqual({
+      mimeType: "",
+      text: "AP8B",
+      encoding: "base64",
+    });
+    expect(entry.request.bodySize).toBe(3);
+    expect(entry.response.content.text).toBe("\u3042");
+
+    uninstallXhrHook();
+    insertHarReplayHook("replay", har, { matchBody: true });
+    expect(
+      (await sendXhr("POST", "https://example.com/upload", { body }))
+        .responseText,
+    ).toBe("\u3042");
+  });
+
+  it("should replay a recorded HAR", async () => {
+    const har: Har = {
+      log: {
+        version: "1.2",
+        creator: { name: "test", version: "1" },
+        entries: [
+          createEntry("GET", "https://example.com/items", "first"),
+          createEntry("GET", "https://example.com/items", "second"),
+          createEntry("GET", "https://example.com/binary", "AAEC", "base64"),
+        ],
+      },
+    };
+    insertHarReplayHook("replay", har);
+
+    expect(
+      (await sendXhr("GET", "https://example.com/items")).responseText,
+    ).toBe("first");
+    expect(
+      (await sendXhr("GET", "https://example.com/items")).responseText,
+    ).toBe("second");
+    expect(
+      (await sendXhr("GET", "https://example.com/items")).responseText,
+    ).toBe("second");
+    expect(
+      (await sendXhr("GET", "https://example.com/binary")).responseText,
+    ).toBe("\u0000\u0001\u0002");
+  });
+
+  it("should match the body with matchBody", async () => {
+    const entry = createEntry("POST", "https://example.com/graphql", "matched");
+    entry.request.postData = { mimeType: "text/plain", text: "query A" };
+    insertHarReplayHook(
+      "replay",
+      {
+        log: {
+          version: "1.2",
+          creator: { name: "test", version: "1" },
+          entries: [entry],
+        },
+      },
+      { matchBody: true },
+    );
+    insertXhrHook("fallback", () => async () => new Response("fallback"));
+
+    expect(
+      (
+        await sendXhr("POST", "https://example.com/graphql", {
+          body: "query A",
+        })
+      ).responseText,
+    ).toBe("matched");
+    expect(
+      (
+        await sendXhr("POST", "https://example.com/graphql", {
+          body: "query B",
+        })
+      ).responseText,
+    ).toBe("fallback");
+  });
+});
+
+function createEntry(
+  method: string,
+  url: string,
+  text: string,
+  encoding?: "base64",
+): HarEntry {
+  return {
+    startedDateTime: new Date(0).toISOString(),
+    time: 0,
+    request: {
+      method,
+      url,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: [],
+      queryString: [],
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: "OK",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: [{ name: "Content-Length", value: "9999" }],
+      content: { size: text.length, mimeType: "text/plain", text, encoding },
+      redirectURL: "",
+      headersSize: -1,
+      bodySize: text.length,
+    },
+    cache: {},
+    timings: { send: 0, wait: 0, receive: 0 },
+  };
+}
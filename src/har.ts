@@ -0,0 +1,321 @@
+import {
+  type InsertXhrHookOptions,
+  insertXhrHook,
+  insertXhrResponseHook,
+  removeXhrResponseHook,
+  type XhrHookHandle,
+  type XhrResponseHookContext,
+} from "./index";
+
+/**
+ * A HAR 1.2 document. Only the fields this library reads or writes are typed.
+ * See http://www.softwareishard.com/blog/har-12-spec/ for the full format.
+ */
+export type Har = {
+  log: HarLog;
+};
+
+export type HarLog = {
+  version: string;
+  creator: { name: string; version: string };
+  entries: HarEntry[];
+};
+
+export type HarEntry = {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  /** The name of the XHR hook that produced the response, if any. */
+  _handledBy?: string;
+};
+
+export type HarNameValue = {
+  name: string;
+  value: string;
+};
+
+export type HarRequest = {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  /** A body of a binary MIME type is stored base64-encoded, as in content of HarResponse. `encoding` is not part of HAR 1.2. */
+  postData?: { mimeType: string; text: string; encoding?: "base64" };
+  headersSize: number;
+  bodySize: number;
+};
+
+export type HarResponse = {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: "base64";
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+};
+
+/**
+ * A running HAR recording.
+ */
+export type HarRecorder = {
+  /** Wait for pending entries and return the HAR document of everything recorded so far. */
+  getHar(): Promise<Har>;
+  /** Stop recording. The entries recorded so far are kept. */
+  stop(): void;
+};
+
+/**
+ * Start recording every request, including pass-through ones and ones answered by hooks, into a HAR document.
+ * Recording is done with a response hook that runs after all other response hooks, so the recorded response is the one the page sees.
+ * Requests made with fetch are recorded too if hookFetch was called.
+ * @param name A unique name for the response hook used for recording.
+ */
+export function recordHar(name = "xhr-hook-har-recorder"): HarRecorder {
+  const entries: Promise<HarEntry>[] = [];
+  insertXhrResponseHook(
+    name,
+    (request, response, context) => {
+      entries.push(createHarEntry(request, response, context));
+      return undefined;
+    },
+    {
+      onExists: "error",
+      priority: Number.NEGATIVE_INFINITY,
+      includeHooked: true,
+    },
+  );
+
+  return {
+    async getHar() {
+      return {
+        log: {
+          version: "1.2",
+          creator: { name: "@sevenc-nanashi/xhr-hook", version: "" },
+          entries: await Promise.all(entries),
+        },
+      };
+    },
+    stop() {
+      removeXhrResponseHook(name);
+    },
+  };
+}
+
+async function createHarEntry(
+  request: Request,
+  response: Response,
+  context: XhrResponseHookContext,
+): Promise<HarEntry> {
+  const url = new URL(request.url);
+  const requestBuffer = request.body
+    ? new Uint8Array(await request.arrayBuffer())
+    : undefined;
+  const requestMimeType = request.headers.get("Content-Type") ?? "";
+  const responseBuffer = new Uint8Array(await response.arrayBuffer());
+  const responseMimeType = response.headers.get("Content-Type") ?? "";
+  const time = Date.now() - context.startTime;
+  return {
+    startedDateTime: new Date(context.startTime).toISOString(),
+    time,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: headersToHar(request.headers),
+      queryString: [...url.searchParams].map(([name, value]) => ({
+        name,
+        value,
+      })),
+      ...(requestBuffer !== undefined && {
+        postData: {
+          mimeType: requestMimeType,
+          ...encodeHarText(requestBuffer, requestMimeType),
+        },
+      }),
+      headersSize: -1,
+      bodySize: requestBuffer?.byteLength ?? 0,
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: headersToHar(response.headers),
+      content: {
+        size: responseBuffer.byteLength,
+        mimeType: responseMimeType,
+        ...encodeHarText(responseBuffer, responseMimeType),
+      },
+      redirectURL: response.headers.get("Location") ?? "",
+      headersSize: -1,
+      bodySize: responseBuffer.byteLength,
+    },
+    cache: {},
+    timings: { send: 0, wait: time, receive: 0 },
+    ...(context.handledBy !== undefined && { _handledBy: context.handledBy }),
+  };
+}
+
+/**
+ * Options for inserting a HAR replay hook.
+ */
+export type InsertHarReplayHookOptions = InsertXhrHookOptions & {
+  /** Also require the request body to equal the recorded body. Default is false. */
+  matchBody?: boolean;
+};
+
+/**
+ * Insert an XHR hook that answers requests with the responses recorded in `har`.
+ * A request matches an entry with the same method and URL (and body, with `matchBody`).
+ * When several entries match, they are served in recorded order, and the last one is repeated.
+ * Requests without a matching entry are passed to the next hook.
+ * @param name A unique name for the hook.
+ * @param har The HAR document to replay.
+ * @param options Options for inserting the hook.
+ * @returns A handle to the hook, as returned by insertXhrHook.
+ */
+export function insertHarReplayHook(
+  name: string,
+  har: Har,
+  options: InsertHarReplayHookOptions = {},
+): XhrHookHandle {
+  const servedCounts = new Map<string, number>();
+  const pickEntry = (request: Request, requestBody: Uint8Array | undefined) => {
+    const candidates = har.log.entries.filter(
+      (entry) =>
+        entry.request.method.toUpperCase() === request.method.toUpperCase() &&
+        entry.request.url === request.url &&
+        (requestBody === undefined ||
+          postDataMatches(entry.request.postData, requestBody)),
+    );
+    if (candidates.length === 0) {
+      return undefined;
+    }
+    const key = `${request.method} ${request.url} ${requestBody ? bytesToBase64(requestBody) : ""}`;
+    const count = servedCounts.get(key) ?? 0;
+    servedCounts.set(key, count + 1);
+    return candidates[Math.min(count, candidates.length - 1)];
+  };
+  const toCallback = (entry: HarEntry | undefined) =>
+    entry ? async () => harEntryToResponse(entry) : undefined;
+
+  return insertXhrHook(
+    name,
+    (request) => {
+      if (!options.matchBody) {
+        return toCallback(pickEntry(request, undefined));
+      }
+      return request
+        .arrayBuffer()
+        .then((requestBody) =>
+          toCallback(pickEntry(request, new Uint8Array(requestBody))),
+        );
+    },
+    options,
+  );
+}
+
+function harEntryToResponse(entry: HarEntry): Response {
+  const { response } = entry;
+  if (response.status === 0) {
+    throw new TypeError("Network request failed");
+  }
+  const headers = new Headers();
+  for (const { name, value } of response.headers) {
+    // The recorded body is already decoded, so the original encoding and length no longer apply.
+    if (/^(content-encoding|content-length)$/i.test(name)) {
+      continue;
+    }
+    headers.append(name, value);
+  }
+  const { text, encoding } = response.content;
+  const contentType = headers.get("Content-Type");
+  if (text !== undefined && encoding !== "base64" && contentType !== null) {
+    // A text body is sent as UTF-8, whatever charset it was recorded in.
+    headers.set(
+      "Content-Type",
+      contentType.replace(CHARSET_PATTERN, "$1utf-8"),
+    );
+  }
+  const body =
+    text === undefined
+      ? null
+      : encoding === "base64"
+        ? base64ToBytes(text)
+        : text;
+  return new Response(
+    [101, 103, 204, 205, 304].includes(response.status) ? null : body,
+    { status: response.status, statusText: response.statusText, headers },
+  );
+}
+
+function headersToHar(headers: Headers): HarNameValue[] {
+  return [...headers].map(([name, value]) => ({ name, value }));
+}
+
+function postDataMatches(
+  postData: HarRequest["postData"],
+  body: Uint8Array,
+): boolean {
+  if (!postData) {
+    return body.byteLength === 0;
+  }
+  if (postData.encoding === "base64") {
+    return postData.text === bytesToBase64(body);
+  }
+  return postData.text === decodeText(body, postData.mimeType);
+}
+
+function encodeHarText(
+  bytes: Uint8Array,
+  mimeType: string,
+): { text: string; encoding?: "base64" } {
+  return isTextMimeType(mimeType)
+    ? { text: decodeText(bytes, mimeType) }
+    : { text: bytesToBase64(bytes), encoding: "base64" };
+}
+
+const CHARSET_PATTERN = /(;\s*charset\s*=\s*)("[^"]*"|[^;\s]*)/i;
+
+function decodeText(bytes: Uint8Array, mimeType: string): string {
+  const charset = CHARSET_PATTERN.exec(mimeType)?.[2].replace(/"/g, "");
+  try {
+    return new TextDecoder(charset || "utf-8").decode(bytes);
+  } catch {
+    // An unknown charset is decoded as UTF-8, as a browser would.
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return /^text\/|[/+](json|xml|javascript)\b|^application\/x-www-form-urlencoded/i.test(
+    mimeType,
+  );
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Convert in chunks to stay below the argument limit of String.fromCharCode.
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
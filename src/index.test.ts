@@ -1,5 +1,25 @@
 import { beforeEach, describe, expect, it } from "vitest";
-import { insertXhrHook, removeXhrHook, setLogger } from "./index";
+import {
+  disableXhrHookGroup,
+  enableXhrHookGroup,
+  hookFetch,
+  insertXhrHook,
+  insertXhrResponseHook,
+  installXhrHook,
+  type LogEntry,
+  listXhrHooks,
+  listXhrResponseHooks,
+  removeXhrHook,
+  removeXhrHookGroup,
+  removeXhrResponseHook,
+  setLogger,
+  setSyncXhrPolicy,
+  setXhrHookErrorPolicy,
+  subscribeXhrInspection,
+  uninstallXhrHook,
+  type XhrHookContext,
+  type XhrInspectionEvent,
+} from "./index";
 
 describe("xhr-hook", () => {
   let hooked = false;
@@ -205,6 +225,54 @@ describe("xhr-hook", () => {
     });
   });
 
+  it("should accept a structured logger", async () => {
+    const entries: LogEntry[] = [];
+    setLogger({ write: (entry) => entries.push(entry) });
+    try {
+      insertXhrHook("test", () => async () => new Response("Hello"));
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", "https://example.com/logged");
+      await new Promise<void>((resolve) => {
+        xhr.onload = () => resolve();
+        xhr.send();
+      });
+    } finally {
+      setLogger({
+        log: (_message: string) => undefined,
+        warn: (_message: string) => undefined,
+        error: (message: string, error?: unknown) => {
+          console.error(`[xhr-hook] ${message}`, error);
+        },
+      });
+    }
+
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        level: "info",
+        message: 'Inserting hook "test"',
+        hookName: "test",
+      }),
+    );
+    const hookEntry = entries.find(
+      (entry) => entry.message === 'Calling hook "test"',
+    );
+    expect(hookEntry).toMatchObject({
+      level: "debug",
+      hookName: "test",
+      method: "GET",
+      url: "https://example.com/logged",
+    });
+    const requestEntries = entries.filter(
+      (entry) => entry.requestId === hookEntry?.requestId,
+    );
+    expect(requestEntries.length).toBeGreaterThan(2);
+    expect(
+      requestEntries.every(
+        (entry) => entry.url === "https://example.com/logged",
+      ),
+    ).toBe(true);
+  });
+
   it("should handle json responseType", async () => {
     const hook = (_xhr: Request) => {
       return (_abort: AbortSignal) => {
@@ -289,13 +357,174 @@ describe("xhr-hook", () => {
     });
   });
 
+  it("should decode text with the charset of the response", async () => {
+    // "こんにちは" in Shift_JIS
+    const bytes = new Uint8Array([
+      0x82, 0xb1, 0x82, 0xf1, 0x82, 0xc9, 0x82, 0xbf, 0x82, 0xcd,
+    ]);
+    insertXhrHook(
+      "test",
+      () => async () =>
+        new Response(bytes, {
+          headers: { "Content-Type": "text/plain; charset=Shift_JIS" },
+        }),
+    );
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => resolve();
+      xhr.send();
+    });
+    expect(xhr.responseText).toBe("こんにちは");
+  });
+
+  it("should buffer a large streamed body without Content-Length", async () => {
+    const chunk = new Uint8Array(256 * 1024).fill(0x61);
+    // "あ" split across two chunks.
+    const chunks = [
+      ...Array.from({ length: 12 }, () => chunk),
+      new Uint8Array([0xe3, 0x81]),
+      new Uint8Array([0x82]),
+    ];
+    insertXhrHook(
+      "test",
+      () => async () =>
+        new Response(
+          new ReadableStream({
+            pull(controller) {
+              const next = chunks.shift();
+              if (next) {
+                controller.enqueue(next);
+              } else {
+                controller.close();
+              }
+            },
+          }),
+        ),
+    );
+
+    const loadingLengths: number[] = [];
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState === XMLHttpRequest.LOADING) {
+        loadingLengths.push(xhr.responseText.length);
+      }
+    };
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => resolve();
+      xhr.send();
+    });
+    const expected = `${"a".repeat(12 * chunk.length)}あ`;
+    expect(xhr.responseText).toBe(expected);
+    expect(loadingLengths.at(-2)).toBe(12 * chunk.length);
+    expect(loadingLengths.at(-1)).toBe(expected.length);
+  });
+
+  it("should return the same response object on every read", async () => {
+    insertXhrHook("test", () => async () => Response.json({ items: [1, 2] }));
+
+    const load = (responseType: XMLHttpRequestResponseType) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", "https://example.com");
+      xhr.responseType = responseType;
+      return new Promise<XMLHttpRequest>((resolve) => {
+        xhr.onload = () => resolve(xhr);
+        xhr.send();
+      });
+    };
+    const json = await load("json");
+    expect(json.response).toEqual({ items: [1, 2] });
+    expect(json.response).toBe(json.response);
+    const arrayBuffer = await load("arraybuffer");
+    expect(arrayBuffer.response.byteLength).toBe(15);
+    expect(arrayBuffer.response).toBe(arrayBuffer.response);
+  });
+
+  it("should respect overrideMimeType", async () => {
+    insertXhrHook(
+      "test",
+      () => async () =>
+        new Response(new Uint8Array([0x82, 0xa0]), {
+          headers: { "Content-Type": "application/octet-stream" },
+        }),
+    );
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    xhr.overrideMimeType("text/plain; charset=shift_jis");
+    xhr.responseType = "blob";
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => resolve();
+      xhr.send();
+    });
+    expect((xhr.response as Blob).type).toBe("text/plain");
+    xhr.responseType = "";
+    expect(xhr.responseText).toBe("あ");
+    expect(() => xhr.overrideMimeType("text/html")).toThrowError();
+  });
+
+  it("should parse HTML documents for responseType document", async () => {
+    insertXhrHook(
+      "test",
+      () => async () =>
+        new Response("<title>Hello</title><p>World</p>", {
+          headers: { "Content-Type": "text/html" },
+        }),
+    );
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    xhr.responseType = "document";
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => resolve();
+      xhr.send();
+    });
+    const document = xhr.response as Document;
+    expect(document.title).toBe("Hello");
+    expect(document.querySelector("p")?.textContent).toBe("World");
+    expect(xhr.response).toBe(document);
+    expect(xhr.responseXML).toBe(document);
+  });
+
+  it("should serve XML, but not HTML, as responseXML", async () => {
+    let contentType = "application/xml";
+    insertXhrHook(
+      "test",
+      () => async () =>
+        new Response("<doc><title>Hello</title></doc>", {
+          headers: { "Content-Type": contentType },
+        }),
+    );
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => resolve();
+      xhr.send();
+    });
+    expect(xhr.responseXML?.querySelector("title")?.textContent).toBe("Hello");
+
+    contentType = "text/html";
+    xhr.open("GET", "https://example.com");
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => resolve();
+      xhr.send();
+    });
+    expect(xhr.responseXML).toBeNull();
+  });
+
   it("should get all response headers", async () => {
     const hook = (_xhr: Request) => {
       return (_abort: AbortSignal) => {
         return new Promise<Response>((resolve) => {
           resolve(
             new Response("Hello", {
-              headers: { "X-Test": "true" },
+              headers: {
+                "X-Test": "true",
+                "Access-Control-Expose-Headers": "X-Test",
+              },
             }),
           );
         });
@@ -316,6 +545,591 @@ describe("xhr-hook", () => {
     });
   });
 
+  it("should format response headers like the spec", async () => {
+    insertXhrHook(
+      "test",
+      () => async () =>
+        new Response("Hello", {
+          headers: { "X-B": "2", "X-A": "1", "Content-Type": "text/plain" },
+        }),
+    );
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", new URL("/same-origin", location.href).toString());
+
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => {
+        expect(xhr.getAllResponseHeaders()).toBe(
+          "content-type: text/plain\r\nx-a: 1\r\nx-b: 2\r\n",
+        );
+        expect(xhr.getResponseHeader("CONTENT-TYPE")).toBe("text/plain");
+        expect(xhr.getResponseHeader("X-Missing")).toBeNull();
+        resolve();
+      };
+      xhr.send();
+    });
+  });
+
+  it("should only expose CORS-exposed headers of a cross-origin response", async () => {
+    insertXhrHook(
+      "test",
+      () => async () =>
+        new Response("Hello", {
+          headers: {
+            "Content-Type": "text/plain",
+            "X-Exposed": "yes",
+            "X-Hidden": "no",
+            "Access-Control-Expose-Headers": "X-Exposed",
+          },
+        }),
+    );
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://cross-origin.example.com");
+
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => {
+        expect(xhr.getResponseHeader("Content-Type")).toBe("text/plain");
+        expect(xhr.getResponseHeader("X-Exposed")).toBe("yes");
+        expect(xhr.getResponseHeader("X-Hidden")).toBeNull();
+        expect(xhr.getAllResponseHeaders()).not.toContain("x-hidden");
+        resolve();
+      };
+      xhr.send();
+    });
+  });
+
+  it("should filter the headers of a relative URL resolved against a cross-origin base", async () => {
+    insertXhrHook(
+      "test",
+      () => async () =>
+        new Response("Hello", { headers: { "X-Hidden": "no" } }),
+    );
+    const base = document.createElement("base");
+    base.href = "https://cross-origin.example.com/app/";
+    document.head.append(base);
+
+    try {
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", "api");
+      await new Promise<void>((resolve) => {
+        xhr.onload = () => resolve();
+        xhr.send();
+      });
+      expect(xhr.getResponseHeader("X-Hidden")).toBeNull();
+    } finally {
+      base.remove();
+    }
+  });
+
+  it("should fire the spec event sequence for a hooked request", async () => {
+    insertXhrHook(
+      "test",
+      () => async () =>
+        new Response("Hello", { headers: { "Content-Length": "5" } }),
+    );
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "https://example.com");
+    const events: string[] = [];
+    for (const type of [
+      "readystatechange",
+      "loadstart",
+      "progress",
+      "load",
+      "loadend",
+    ]) {
+      xhr.addEventListener(type, (event) => {
+        events.push(
+          event instanceof ProgressEvent
+            ? `${type}:${xhr.readyState}:${event.loaded}/${event.total}:${event.lengthComputable}`
+            : `${type}:${xhr.readyState}`,
+        );
+      });
+    }
+    for (const type of ["loadstart", "progress", "load", "loadend"]) {
+      xhr.upload.addEventListener(type, (event) => {
+        const { loaded, total } = event as ProgressEvent;
+        events.push(`upload.${type}:${loaded}/${total}`);
+      });
+    }
+
+    await new Promise<void>((resolve) => {
+      xhr.addEventListener("loadend", () => resolve());
+      xhr.send("12345678");
+      expect(events).toEqual(["loadstart:1:0/0:false"]);
+    });
+
+    expect(events).toEqual([
+      "loadstart:1:0/0:false",
+      "upload.loadstart:0/8",
+      "upload.progress:8/8",
+      "upload.load:8/8",
+      "upload.loadend:8/8",
+      "readystatechange:2",
+      "readystatechange:3",
+      "progress:3:5/5:true",
+      "progress:3:5/5:true",
+      "readystatechange:4",
+      "load:4:5/5:true",
+      "loadend:4:5/5:true",
+    ]);
+  });
+
+  it("should pass the request body to hooks", async () => {
+    const { promise, resolve } = promiseWithResolvers<Request>();
+    insertXhrHook("test", (request) => {
+      resolve(request);
+      return undefined;
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "https://example.com");
+    xhr.send(JSON.stringify({ query: "{ hello }" }));
+
+    const request = await promise;
+    expect(request.method).toBe("POST");
+    expect(request.headers.get("Content-Type")).toBe(
+      "text/plain;charset=UTF-8",
+    );
+    expect(await request.json()).toEqual({ query: "{ hello }" });
+  });
+
+  it("should keep the Content-Type set by the page", async () => {
+    const { promise, resolve } = promiseWithResolvers<Request>();
+    insertXhrHook("test", (request) => {
+      resolve(request);
+      return undefined;
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "https://example.com");
+    xhr.setRequestHeader("Content-Type", "application/json");
+    xhr.send(new URLSearchParams({ a: "1" }));
+
+    const request = await promise;
+    expect(request.headers.get("Content-Type")).toBe("application/json");
+    expect(await request.text()).toBe("a=1");
+  });
+
+  it("should map credentials, the base URL and open() auth into the request", async () => {
+    const { promise, resolve } =
+      promiseWithResolvers<[Request, XhrHookContext]>();
+    insertXhrHook("test", (request, context) => {
+      resolve([request, context]);
+      return async () => new Response("ok");
+    });
+    const base = document.createElement("base");
+    base.href = "https://example.com/app/";
+    document.head.append(base);
+
+    try {
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", "api/items", true, "user", "pässword");
+      xhr.withCredentials = true;
+      xhr.responseType = "json";
+      xhr.send();
+
+      const [request, context] = await promise;
+      expect(request.url).toBe("https://example.com/app/api/items");
+      expect(request.credentials).toBe("include");
+      expect(request.mode).toBe("cors");
+      expect(request.headers.get("Authorization")).toBe(
+        "Basic dXNlcjpww6Rzc3dvcmQ=",
+      );
+      expect(context).toEqual({
+        source: "xhr",
+        async: true,
+        responseType: "json",
+        withCredentials: true,
+        username: "user",
+        password: "pässword",
+      });
+    } finally {
+      base.remove();
+    }
+  });
+
+  it("should serialize a Document body", async () => {
+    const { promise, resolve } = promiseWithResolvers<Request>();
+    insertXhrHook("test", (request) => {
+      resolve(request);
+      return undefined;
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", "https://example.com");
+    xhr.send(
+      new DOMParser().parseFromString("<doc>Hello</doc>", "application/xml"),
+    );
+
+    const request = await promise;
+    expect(request.headers.get("Content-Type")).toBe(
+      "application/xml;charset=UTF-8",
+    );
+    expect(await request.text()).toBe("<doc>Hello</doc>");
+  });
+
+  it("should give every hook an unread body", async () => {
+    const bodies: string[] = [];
+    insertXhrHook("test1", (request) => {
+      request.text().then((text) => bodies.push(text));
+      return undefined;
+    });
+    insertXhrHook("test2", (request) => {
+      request.text().then((text) => bodies.push(text));
+      return undefined;
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "https://example.com");
+    xhr.send("payload");
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(bodies).toEqual(["payload", "payload"]);
+
+    removeXhrHook("test1");
+    removeXhrHook("test2");
+  });
+
+  it("should wait for an asynchronous hook", async () => {
+    insertXhrHook("test", async (request) => {
+      const { name } = await request.json();
+      return async () => new Response(`Hello, ${name}!`);
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "https://example.com");
+
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => {
+        expect(xhr.responseText).toBe("Hello, world!");
+        resolve();
+      };
+      xhr.send(JSON.stringify({ name: "world" }));
+      expect(xhr.readyState).toBe(XMLHttpRequest.OPENED);
+    });
+  });
+
+  it("should continue to the next hook after an asynchronous undefined", async () => {
+    const calls: string[] = [];
+    insertXhrHook("test1", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      calls.push("test1");
+      return undefined;
+    });
+    insertXhrHook("test2", () => {
+      calls.push("test2");
+      return async () => new Response("From test2");
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => {
+        expect(xhr.responseText).toBe("From test2");
+        resolve();
+      };
+      xhr.send();
+    });
+    expect(calls).toEqual(["test1", "test2"]);
+
+    removeXhrHook("test1");
+    removeXhrHook("test2");
+  });
+
+  it("should rewrite the response of a pass-through request", async () => {
+    let seenStatus: number | undefined;
+    insertXhrResponseHook("test", async (_request, response) => {
+      seenStatus = response.status;
+      const text = await response.text();
+      return new Response(text.toUpperCase(), {
+        status: 202,
+        headers: { "X-Rewritten": "true" },
+      });
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "data:text/plain,hello");
+
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => {
+        expect(seenStatus).toBe(200);
+        expect(xhr.status).toBe(202);
+        expect(xhr.responseText).toBe("HELLO");
+        expect(xhr.getAllResponseHeaders()).toContain("x-rewritten: true");
+        resolve();
+      };
+      xhr.send();
+    });
+
+    removeXhrResponseHook("test");
+  });
+
+  it("should keep the response when a response hook returns undefined", async () => {
+    insertXhrResponseHook("test", () => undefined);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "data:text/plain,hello");
+
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => {
+        expect(xhr.status).toBe(200);
+        expect(xhr.responseText).toBe("hello");
+        resolve();
+      };
+      xhr.send();
+    });
+
+    removeXhrResponseHook("test");
+  });
+
+  it("should send the serialized FormData of a pass-through request through response hooks", async () => {
+    uninstallXhrHook();
+    const { send, setRequestHeader } = XMLHttpRequest.prototype;
+    const sentBodies: unknown[] = [];
+    const contentTypes: string[] = [];
+    XMLHttpRequest.prototype.send = function (body) {
+      sentBodies.push(body);
+      return send.call(this, body);
+    };
+    XMLHttpRequest.prototype.setRequestHeader = function (name, value) {
+      if (name.toLowerCase() === "content-type") {
+        contentTypes.push(value);
+      }
+      return setRequestHeader.call(this, name, value);
+    };
+
+    try {
+      insertXhrResponseHook("test", () => undefined);
+      const formData = new FormData();
+      formData.append("field", "value");
+      const xhr = new XMLHttpRequest();
+      xhr.open("POST", "data:text/plain,hello");
+      await new Promise<void>((resolve) => {
+        xhr.onloadend = () => resolve();
+        xhr.send(formData);
+      });
+    } finally {
+      uninstallXhrHook();
+      XMLHttpRequest.prototype.send = send;
+      XMLHttpRequest.prototype.setRequestHeader = setRequestHeader;
+    }
+
+    expect(sentBodies).toHaveLength(1);
+    expect(sentBodies[0]).toBeInstanceOf(ArrayBuffer);
+    const boundary = contentTypes[0]?.match(/boundary=(.+)$/)?.[1];
+    expect(boundary).toBeDefined();
+    const sentText = new TextDecoder().decode(sentBodies[0] as ArrayBuffer);
+    expect(sentText).toContain(`--${boundary}`);
+    expect(sentText).toContain("value");
+  });
+
+  it("should keep the CORS-exposed headers of a cross-origin pass-through request", async () => {
+    uninstallXhrHook();
+    const { open, getAllResponseHeaders } = XMLHttpRequest.prototype;
+    // Serve the cross-origin URL from a data: URL, with a header the browser exposed.
+    XMLHttpRequest.prototype.open = function (
+      this: XMLHttpRequest,
+      method: string,
+      _url: string | URL,
+    ) {
+      return open.call(this, method, "data:text/plain,hello", true);
+    } as typeof open;
+    XMLHttpRequest.prototype.getAllResponseHeaders = function () {
+      return `x-total-count: 5\r\n${getAllResponseHeaders.call(this)}`;
+    };
+
+    try {
+      insertXhrResponseHook("test", () => undefined);
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", "https://cross-origin.example.com/items");
+      await new Promise<void>((resolve) => {
+        xhr.onload = () => resolve();
+        xhr.send();
+      });
+      expect(xhr.getResponseHeader("X-Total-Count")).toBe("5");
+    } finally {
+      uninstallXhrHook();
+      XMLHttpRequest.prototype.open = open;
+      XMLHttpRequest.prototype.getAllResponseHeaders = getAllResponseHeaders;
+    }
+  });
+
+  it("should hook fetch with the same hooks", async () => {
+    hookFetch();
+    insertXhrHook("test", (request) => {
+      if (request.url !== "https://example.com/fetch") {
+        return undefined;
+      }
+      return async () => new Response("Hello from fetch!", { status: 201 });
+    });
+
+    const response = await fetch("https://example.com/fetch", {
+      method: "POST",
+      body: "payload",
+    });
+    expect(response.status).toBe(201);
+    expect(await response.text()).toBe("Hello from fetch!");
+  });
+
+  it("should run response hooks for pass-through fetch", async () => {
+    hookFetch();
+    insertXhrResponseHook("test", () => new Response("Rewritten"));
+
+    const response = await fetch("data:text/plain,hello");
+    expect(await response.text()).toBe("Rewritten");
+
+    removeXhrResponseHook("test");
+  });
+
+  it("should pass a modified request to the next hook", async () => {
+    insertXhrHook("test1", (request) => {
+      const headers = new Headers(request.headers);
+      headers.set("X-Modified", "true");
+      return new Request(request, { headers });
+    });
+    insertXhrHook("test2", (request) => {
+      const modified = request.headers.get("X-Modified");
+      return async () => new Response(`Modified: ${modified}`);
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => {
+        expect(xhr.responseText).toBe("Modified: true");
+        resolve();
+      };
+      xhr.send();
+    });
+
+    removeXhrHook("test1");
+    removeXhrHook("test2");
+  });
+
+  it("should send a modified request to the network", async () => {
+    insertXhrHook("test", () => new Request("data:text/plain,rewritten"));
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "data:text/plain,original");
+
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => {
+        expect(xhr.responseText).toBe("rewritten");
+        resolve();
+      };
+      xhr.send();
+    });
+  });
+
+  it("should restore the native XMLHttpRequest on uninstall", async () => {
+    uninstallXhrHook();
+    const nativeOpen = Object.getOwnPropertyDescriptor(
+      XMLHttpRequest.prototype,
+      "open",
+    );
+    const nativeStatus = Object.getOwnPropertyDescriptor(
+      XMLHttpRequest.prototype,
+      "status",
+    );
+
+    insertXhrHook("test", () => {
+      hooked = true;
+      return undefined;
+    });
+    expect(
+      Object.getOwnPropertyDescriptor(XMLHttpRequest.prototype, "open"),
+    ).not.toEqual(nativeOpen);
+
+    uninstallXhrHook();
+    expect(
+      Object.getOwnPropertyDescriptor(XMLHttpRequest.prototype, "open"),
+    ).toEqual(nativeOpen);
+    expect(
+      Object.getOwnPropertyDescriptor(XMLHttpRequest.prototype, "status"),
+    ).toEqual(nativeStatus);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    xhr.send();
+    xhr.abort();
+    expect(hooked).toBe(false);
+  });
+
+  it("should re-patch after uninstall", async () => {
+    uninstallXhrHook();
+    insertXhrHook("test", () => async () => new Response("Hooked again"));
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => {
+        expect(xhr.responseText).toBe("Hooked again");
+        resolve();
+      };
+      xhr.send();
+    });
+  });
+
+  it("should order hooks by priority", () => {
+    uninstallXhrHook();
+    const hook = (_xhr: Request) => undefined;
+    insertXhrHook("low", hook, { priority: -1 });
+    insertXhrHook("default1", hook);
+    insertXhrHook("high", hook, { priority: 10 });
+    insertXhrHook("default2", hook);
+
+    expect(listXhrHooks()).toEqual(["high", "default1", "default2", "low"]);
+    uninstallXhrHook();
+  });
+
+  it("should order hooks by before and after", () => {
+    uninstallXhrHook();
+    const hook = (_xhr: Request) => undefined;
+    insertXhrHook("a", hook, { priority: 10 });
+    insertXhrHook("b", hook, { before: "a" });
+    insertXhrHook("c", hook, { after: ["a", "missing"] });
+    insertXhrHook("d", hook, { before: "b", priority: -5 });
+
+    expect(listXhrHooks()).toEqual(["d", "b", "a", "c"]);
+    uninstallXhrHook();
+  });
+
+  it("should apply the new ordering when replacing a hook", async () => {
+    uninstallXhrHook();
+    const calls: string[] = [];
+    insertXhrHook("first", () => {
+      calls.push("first");
+      return undefined;
+    });
+    insertXhrHook("second", () => {
+      calls.push("second");
+      return async () => new Response("done");
+    });
+    insertXhrHook(
+      "second",
+      () => {
+        calls.push("second");
+        return async () => new Response("done");
+      },
+      { onExists: "replace", before: "first" },
+    );
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => resolve();
+      xhr.send();
+    });
+
+    expect(calls).toEqual(["second"]);
+    uninstallXhrHook();
+  });
+
   it("should abort the request", async () => {
     const { promise, resolve } = promiseWithResolvers<void>();
     const hook = (_xhr: Request) => {
@@ -337,6 +1151,632 @@ describe("xhr-hook", () => {
 
     await promise;
   });
+
+  it("should follow the abort steps for a hooked request", async () => {
+    const { promise, resolve } = promiseWithResolvers<Response>();
+    insertXhrHook("test", () => () => promise);
+
+    const xhr = new XMLHttpRequest();
+    const events: string[] = [];
+    for (const type of ["readystatechange", "load", "abort", "loadend"]) {
+      xhr.addEventListener(type, () =>
+        events.push(`${type}:${xhr.readyState}`),
+      );
+    }
+    xhr.open("GET", "https://example.com");
+    xhr.send();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    events.length = 0;
+
+    xhr.abort();
+    expect(events).toEqual(["readystatechange:4", "abort:4", "loadend:4"]);
+    expect(xhr.readyState).toBe(XMLHttpRequest.UNSENT);
+    expect(xhr.status).toBe(0);
+
+    // The callback ignores the signal, but its response must not be used.
+    resolve(new Response("Too late"));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(events).toEqual(["readystatechange:4", "abort:4", "loadend:4"]);
+    expect(xhr.responseText).toBe("");
+  });
+
+  it("should abort while asynchronous hooks are pending", async () => {
+    let hookCalled = false;
+    insertXhrHook("test", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      hookCalled = true;
+      return async () => new Response("Hooked");
+    });
+
+    const xhr = new XMLHttpRequest();
+    const events: string[] = [];
+    for (const type of ["abort", "load", "loadend"]) {
+      xhr.addEventListener(type, () => events.push(type));
+    }
+    xhr.open("GET", "https://example.com");
+    xhr.send();
+    xhr.abort();
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(hookCalled).toBe(true);
+    expect(events).toEqual(["abort", "loadend"]);
+  });
+
+  it("should throw when sent again while asynchronous hooks are pending", async () => {
+    let hookCalls = 0;
+    insertXhrHook("test", async () => {
+      hookCalls++;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return async () => new Response("Hooked");
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    xhr.send();
+    expect(() => xhr.send()).toThrowError(
+      expect.objectContaining({ name: "InvalidStateError" }),
+    );
+
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => resolve();
+    });
+    expect(hookCalls).toBe(1);
+    expect(xhr.responseText).toBe("Hooked");
+  });
+
+  it("should reset a finished hooked request on abort", async () => {
+    insertXhrHook("test", () => async () => new Response("Hooked"));
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => resolve();
+      xhr.send();
+    });
+    const events: string[] = [];
+    for (const type of ["readystatechange", "abort", "loadend"]) {
+      xhr.addEventListener(type, () => events.push(type));
+    }
+    xhr.abort();
+
+    expect(xhr.readyState).toBe(XMLHttpRequest.UNSENT);
+    expect(xhr.status).toBe(0);
+    expect(xhr.responseText).toBe("");
+    expect(events).toEqual([]);
+    expect(() => xhr.send()).toThrowError(
+      expect.objectContaining({ name: "InvalidStateError" }),
+    );
+  });
+
+  it("should throw when sent after an abort without open", () => {
+    let hookCalls = 0;
+    insertXhrHook("test", () => {
+      hookCalls++;
+      return () => new Promise<Response>(() => undefined);
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    xhr.send();
+    xhr.abort();
+    expect(xhr.readyState).toBe(XMLHttpRequest.UNSENT);
+    expect(() => xhr.send()).toThrowError(
+      expect.objectContaining({ name: "InvalidStateError" }),
+    );
+    expect(hookCalls).toBe(1);
+  });
+
+  it("should time out a hooked request", async () => {
+    const { promise: signalPromise, resolve: resolveSignal } =
+      promiseWithResolvers<AbortSignal>();
+    insertXhrHook("test", () => (signal) => {
+      resolveSignal(signal);
+      return new Promise<Response>(() => {});
+    });
+
+    const xhr = new XMLHttpRequest();
+    const events: string[] = [];
+    for (const type of ["readystatechange", "timeout", "error", "loadend"]) {
+      xhr.addEventListener(type, () =>
+        events.push(`${type}:${xhr.readyState}`),
+      );
+    }
+    xhr.open("GET", "https://example.com");
+    xhr.timeout = 20;
+    xhr.send();
+
+    const signal = await signalPromise;
+    events.length = 0;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(signal.aborted).toBe(true);
+    expect((signal.reason as DOMException).name).toBe("TimeoutError");
+    expect(events).toEqual(["readystatechange:4", "timeout:4", "loadend:4"]);
+    expect(xhr.readyState).toBe(XMLHttpRequest.DONE);
+  });
+
+  it("should not time out a request sent again after an abort", async () => {
+    let calls = 0;
+    insertXhrHook("test", () => () => {
+      calls++;
+      return calls === 1
+        ? new Promise<Response>(() => {})
+        : new Promise<Response>((resolve) =>
+            setTimeout(() => resolve(new Response("retried")), 60),
+          );
+    });
+
+    const xhr = new XMLHttpRequest();
+    const events: string[] = [];
+    for (const type of ["timeout", "load"]) {
+      xhr.addEventListener(type, () => events.push(type));
+    }
+    xhr.open("GET", "https://example.com");
+    xhr.timeout = 40;
+    xhr.send();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    xhr.abort();
+
+    xhr.open("GET", "https://example.com");
+    xhr.timeout = 0;
+    xhr.send();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(events).toEqual(["load"]);
+    expect(xhr.responseText).toBe("retried");
+  });
+
+  it("should let a hook simulate a timeout", async () => {
+    insertXhrHook("test", () => async () => {
+      throw new DOMException("Simulated", "TimeoutError");
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    await new Promise<void>((resolve, reject) => {
+      xhr.ontimeout = () => resolve();
+      xhr.onerror = () => reject(new Error("error fired instead of timeout"));
+      xhr.send();
+    });
+    expect(xhr.status).toBe(0);
+  });
+
+  it("should not time out a request that completes in time", async () => {
+    insertXhrHook("test", () => async () => new Response("In time"));
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    xhr.timeout = 1000;
+    let timedOut = false;
+    xhr.ontimeout = () => {
+      timedOut = true;
+    };
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => resolve();
+      xhr.send();
+    });
+    expect(xhr.responseText).toBe("In time");
+    expect(timedOut).toBe(false);
+  });
+
+  it("should drop the previous request when open() is called again", async () => {
+    const responses = [
+      promiseWithResolvers<Response>(),
+      promiseWithResolvers<Response>(),
+    ];
+    let calls = 0;
+    insertXhrHook("test", () => {
+      const { promise } = responses[calls++];
+      return () => promise;
+    });
+
+    const xhr = new XMLHttpRequest();
+    const loaded: string[] = [];
+    xhr.addEventListener("load", () => loaded.push(xhr.responseText));
+    xhr.open("GET", "https://example.com/first");
+    xhr.send();
+    xhr.open("GET", "https://example.com/second");
+    expect(xhr.readyState).toBe(XMLHttpRequest.OPENED);
+    xhr.send();
+
+    responses[0].resolve(new Response("first"));
+    responses[1].resolve(new Response("second"));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(loaded).toEqual(["second"]);
+  });
+
+  it("should serve a synchronous response to a synchronous request", () => {
+    insertXhrHook("test", () => ({
+      status: 201,
+      headers: { "Content-Type": "text/plain" },
+      body: "Hello, sync!",
+    }));
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com", false);
+    const events: string[] = [];
+    for (const type of ["readystatechange", "load", "loadend"]) {
+      xhr.addEventListener(type, () => events.push(type));
+    }
+    xhr.send();
+    expect(xhr.readyState).toBe(XMLHttpRequest.DONE);
+    expect(xhr.status).toBe(201);
+    expect(xhr.responseText).toBe("Hello, sync!");
+    expect(xhr.getResponseHeader("Content-Type")).toBe("text/plain");
+    expect(events).toEqual(["readystatechange", "load", "loadend"]);
+  });
+
+  it("should serve a synchronous response to an asynchronous request", async () => {
+    insertXhrHook("test", () => ({ body: new Uint8Array([0x68, 0x69]) }));
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    await new Promise<void>((resolve) => {
+      xhr.onload = () => resolve();
+      xhr.send();
+    });
+    expect(xhr.status).toBe(200);
+    expect(xhr.responseText).toBe("hi");
+  });
+
+  it("should apply the sync XHR policy to hooks that answer asynchronously", () => {
+    insertXhrHook("test", () => async () => new Response("async"));
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "data:text/plain,native", false);
+    xhr.send();
+    expect(xhr.responseText).toBe("native");
+
+    setSyncXhrPolicy("error");
+    try {
+      xhr.open("GET", "data:text/plain,native", false);
+      expect(() => xhr.send()).toThrowError(
+        expect.objectContaining({ name: "NetworkError" }),
+      );
+      expect(xhr.readyState).toBe(XMLHttpRequest.DONE);
+      expect(xhr.status).toBe(0);
+    } finally {
+      setSyncXhrPolicy("pass-through");
+    }
+  });
+
+  it("should isolate hooks that throw according to the error policy", async () => {
+    const events: XhrInspectionEvent[] = [];
+    const unsubscribe = subscribeXhrInspection((event) => events.push(event));
+    insertXhrHook(
+      "test",
+      () => {
+        throw new Error("broken hook");
+      },
+      { priority: 1 },
+    );
+    insertXhrHook("test-fallback", () => async () => new Response("fallback"));
+    const send = () => {
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", "data:text/plain,native");
+      return new Promise<string>((resolve) => {
+        xhr.onload = () => resolve(xhr.responseText);
+        xhr.onerror = () => resolve("error event");
+        xhr.send();
+      });
+    };
+
+    try {
+      expect(await send()).toBe("error event");
+      setXhrHookErrorPolicy("skip");
+      expect(await send()).toBe("fallback");
+      setXhrHookErrorPolicy("pass-through");
+      expect(await send()).toBe("native");
+    } finally {
+      setXhrHookErrorPolicy("error");
+      unsubscribe();
+      removeXhrHook("test-fallback");
+    }
+    expect(events.filter((event) => event.type === "hook-error")).toMatchObject(
+      [
+        { hookName: "test", error: new Error("broken hook"), disabled: false },
+        { hookName: "test" },
+        { hookName: "test" },
+      ],
+    );
+  });
+
+  it("should skip the remaining hooks when an asynchronous hook fails under pass-through", async () => {
+    let laterHookCalled = false;
+    insertXhrHook(
+      "test",
+      async () => {
+        throw new Error("broken hook");
+      },
+      { priority: 1 },
+    );
+    insertXhrHook("test-later", () => {
+      laterHookCalled = true;
+      return async () => new Response("later");
+    });
+
+    setXhrHookErrorPolicy("pass-through");
+    try {
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", "data:text/plain,native");
+      const text = await new Promise<string>((resolve) => {
+        xhr.onload = () => resolve(xhr.responseText);
+        xhr.onerror = () => resolve("error event");
+        xhr.send();
+      });
+      expect(text).toBe("native");
+      expect(laterHookCalled).toBe(false);
+    } finally {
+      setXhrHookErrorPolicy("error");
+      removeXhrHook("test-later");
+    }
+  });
+
+  it("should disable a hook that keeps failing", async () => {
+    let calls = 0;
+    const handle = insertXhrHook(
+      "test",
+      async () => {
+        calls++;
+        throw new Error("broken hook");
+      },
+      { disableAfterFailures: 2 },
+    );
+
+    for (let i = 0; i < 3; i++) {
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", "data:text/plain,native");
+      await new Promise<void>((resolve) => {
+        xhr.onloadend = () => resolve();
+        xhr.send();
+      });
+    }
+    expect(calls).toBe(2);
+    expect(handle.enabled).toBe(false);
+    expect(listXhrHooks()).toContain("test");
+  });
+
+  it("should enable, disable and remove a hook through its handle", async () => {
+    const send = () => {
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", "data:text/plain,native");
+      return new Promise<string>((resolve) => {
+        xhr.onload = () => resolve(xhr.responseText);
+        xhr.send();
+      });
+    };
+    {
+      using handle = insertXhrHook(
+        "test",
+        () => async () => new Response("hooked"),
+      );
+      handle.disable();
+      expect(await send()).toBe("native");
+      handle.enable();
+      expect(await send()).toBe("hooked");
+    }
+    expect(listXhrHooks()).not.toContain("test");
+
+    const stale = insertXhrHook("test", () => async () => new Response("old"));
+    insertXhrHook("test", () => async () => new Response("new"), {
+      onExists: "replace",
+    });
+    stale.disable();
+    expect(stale.enabled).toBe(false);
+    expect(await send()).toBe("new");
+  });
+
+  it("should toggle and remove hook groups", async () => {
+    insertXhrHook("test", () => undefined, { group: "extension" });
+    insertXhrResponseHook("test-response", () => undefined, {
+      group: "extension",
+    });
+    insertXhrHook("test-other", () => undefined);
+
+    expect(listXhrHooks("extension")).toEqual(["test"]);
+    expect(listXhrResponseHooks("extension")).toEqual(["test-response"]);
+
+    disableXhrHookGroup("extension");
+    expect(listXhrHooks("extension")).toEqual(["test"]);
+    enableXhrHookGroup("extension");
+
+    expect(removeXhrHookGroup("extension")).toBe(2);
+    expect(listXhrHooks()).toContain("test-other");
+    expect(listXhrHooks()).not.toContain("test");
+    expect(listXhrResponseHooks()).not.toContain("test-response");
+    removeXhrHook("test-other");
+  });
+
+  it("should hook the XMLHttpRequest of another realm", async () => {
+    insertXhrHook("test", () => async () => new Response("Hello, frame!"));
+    const frame = document.createElement("iframe");
+    document.body.append(frame);
+    try {
+      const frameWindow = frame.contentWindow as Window & typeof globalThis;
+      installXhrHook(frameWindow);
+
+      const xhr = new frameWindow.XMLHttpRequest();
+      xhr.open("GET", "https://example.com");
+      await new Promise<void>((resolve) => {
+        xhr.onload = () => resolve();
+        xhr.send();
+      });
+      expect(xhr.responseText).toBe("Hello, frame!");
+    } finally {
+      uninstallXhrHook();
+      frame.remove();
+    }
+  });
+
+  it("should install into frames added later with includeFrames", async () => {
+    insertXhrHook("test", () => async () => new Response("Hello, frame!"));
+    installXhrHook(window, { includeFrames: true });
+    const frame = document.createElement("iframe");
+    document.body.append(frame);
+    try {
+      // The frame is picked up by a MutationObserver or its load event.
+      await Promise.resolve();
+      const frameWindow = frame.contentWindow as Window & typeof globalThis;
+      const xhr = new frameWindow.XMLHttpRequest();
+      xhr.open("GET", "https://example.com");
+      await new Promise<void>((resolve) => {
+        xhr.onload = () => resolve();
+        xhr.send();
+      });
+      expect(xhr.responseText).toBe("Hello, frame!");
+
+      uninstallXhrHook();
+      insertXhrHook("test", () => async () => new Response("Hello, frame!"));
+      xhr.open("GET", "data:text/plain,native");
+      await new Promise<void>((resolve) => {
+        xhr.onload = () => resolve();
+        xhr.send();
+      });
+      expect(xhr.responseText).toBe("native");
+    } finally {
+      uninstallXhrHook();
+      frame.remove();
+    }
+  });
+
+  it("should install into frames added to a navigated frame with includeFrames", async () => {
+    insertXhrHook("test", () => async () => new Response("Hello, nested!"));
+    installXhrHook(window, { includeFrames: true });
+    const frame = document.createElement("iframe");
+    document.body.append(frame);
+    try {
+      await Promise.resolve();
+      await new Promise<void>((resolve) => {
+        frame.addEventListener("load", () => resolve(), { once: true });
+        frame.src = "about:blank";
+      });
+      const frameWindow = frame.contentWindow as Window & typeof globalThis;
+      const nested = frameWindow.document.createElement("iframe");
+      frameWindow.document.body.append(nested);
+      await Promise.resolve();
+
+      const nestedWindow = nested.contentWindow as Window & typeof globalThis;
+      const xhr = new nestedWindow.XMLHttpRequest();
+      xhr.open("GET", "https://example.com");
+      await new Promise<void>((resolve) => {
+        xhr.onload = () => resolve();
+        xhr.send();
+      });
+      expect(xhr.responseText).toBe("Hello, nested!");
+    } finally {
+      uninstallXhrHook();
+      frame.remove();
+    }
+  });
+
+  it("should emit inspection events for a hooked request", async () => {
+    insertXhrHook("test", () => async () => new Response("Hello"));
+    const events: XhrInspectionEvent[] = [];
+    const unsubscribe = subscribeXhrInspection((event) => events.push(event));
+    try {
+      const xhr = new XMLHttpRequest();
+      xhr.open("POST", "https://example.com/inspect");
+      await new Promise<void>((resolve) => {
+        xhr.onload = () => resolve();
+        xhr.send("body");
+      });
+    } finally {
+      unsubscribe();
+    }
+
+    expect(events.map((event) => event.type)).toEqual([
+      "send",
+      "dispatch",
+      "headers",
+      "complete",
+    ]);
+    expect(new Set(events.map((event) => event.id)).size).toBe(1);
+    const [send, dispatch, headers, complete] = events;
+    expect(send.handledBy).toBeUndefined();
+    expect(send.source).toBe("xhr");
+    expect(await send.request.text()).toBe("body");
+    expect(dispatch.handledBy).toBe("test");
+    expect(headers.type === "headers" && headers.status).toBe(200);
+    expect(complete.type === "complete" && complete.bytesReceived).toBe(5);
+  });
+
+  it("should emit inspection events for pass-through and aborted requests", async () => {
+    insertXhrHook("test", (request) =>
+      request.url.includes("slow")
+        ? () => new Promise<Response>(() => undefined)
+        : undefined,
+    );
+    const events: XhrInspectionEvent[] = [];
+    const unsubscribe = subscribeXhrInspection((event) => events.push(event));
+    try {
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", "data:text/plain,native");
+      await new Promise<void>((resolve) => {
+        xhr.onload = () => resolve();
+        xhr.send();
+      });
+      const complete = events.at(-1);
+      expect(complete?.type).toBe("complete");
+      expect(complete?.handledBy).toBeUndefined();
+      expect(complete?.type === "complete" && complete.bytesReceived).toBe(6);
+
+      events.length = 0;
+      xhr.open("GET", "https://example.com/slow");
+      xhr.send();
+      xhr.abort();
+    } finally {
+      unsubscribe();
+    }
+
+    expect(events.map((event) => event.type)).toEqual([
+      "send",
+      "dispatch",
+      "error",
+    ]);
+    expect(events[2].type === "error" && events[2].reason).toBe("abort");
+  });
+
+  it("should count fetch response bytes as the page reads them", async () => {
+    hookFetch();
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    insertXhrHook("test", (request) => async () => {
+      if (request.url.endsWith("/complete")) {
+        return new Response("Hello, fetch!");
+      }
+      // A stream that never ends, like server-sent events.
+      return new Response(
+        new ReadableStream({
+          pull(controller) {
+            controller.enqueue(encoder.encode("data: ping\n\n"));
+          },
+          cancel() {
+            cancelled = true;
+          },
+        }),
+      );
+    });
+    const events: XhrInspectionEvent[] = [];
+    const unsubscribe = subscribeXhrInspection((event) => events.push(event));
+    try {
+      const response = await fetch("https://example.com/complete");
+      expect(await response.text()).toBe("Hello, fetch!");
+      expect(events.at(-1)).toMatchObject({
+        type: "complete",
+        bytesReceived: 13,
+      });
+
+      events.length = 0;
+      const stream = await fetch("https://example.com/events");
+      const reader = (stream.body as ReadableStream<Uint8Array>).getReader();
+      await reader.read();
+      await reader.read();
+      expect(events.map((event) => event.type)).not.toContain("complete");
+      await reader.cancel();
+    } finally {
+      unsubscribe();
+    }
+    expect(cancelled).toBe(true);
+    expect(events.at(-1)).toMatchObject({ type: "error", reason: "abort" });
+  });
 });
 
 function promiseWithResolvers<T>() {
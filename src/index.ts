@@ -7,49 +7,662 @@ export interface Logger {
   error: (message: string, error?: unknown) => void;
 }
 
-let logger: Logger = {
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * A log entry with the context it was written in.
+ */
+export type LogEntry = {
+  level: LogLevel;
+  message: string;
+  /** The error that caused the entry, if any. */
+  error?: unknown;
+  /** Correlates the entries of one request. The same id is used by the inspection events. */
+  requestId?: number;
+  /** The name of the hook or response hook the entry is about. */
+  hookName?: string;
+  method?: string;
+  url?: string;
+  /** When the entry was written, in milliseconds since the epoch. */
+  timestamp: number;
+};
+
+/**
+ * Interface for a logger that receives structured entries.
+ */
+export interface StructuredLogger {
+  write: (entry: LogEntry) => void;
+}
+
+/**
+ * Adapt a string-based Logger to a StructuredLogger.
+ * Debug and info entries go to `log`, and only the message is passed on.
+ */
+export function adaptLogger(stringLogger: Logger): StructuredLogger {
+  return {
+    write: (entry) => {
+      switch (entry.level) {
+        case "debug":
+        case "info":
+          stringLogger.log(entry.message);
+          break;
+        case "warn":
+          stringLogger.warn(entry.message);
+          break;
+        case "error":
+          stringLogger.error(entry.message, entry.error);
+          break;
+      }
+    },
+  };
+}
+
+let structuredLogger: StructuredLogger = adaptLogger({
   log: (_message: string) => undefined,
   warn: (_message: string) => undefined,
   error: (message: string, error?: unknown) => {
     console.error(`[xhr-hook] ${message}`, error);
   },
-};
+});
 
 /**
  * Set a custom logger for the library.
+ * A string-based Logger is adapted with adaptLogger.
+ */
+export function setLogger(newLogger: Logger | StructuredLogger) {
+  structuredLogger = "write" in newLogger ? newLogger : adaptLogger(newLogger);
+}
+
+/** The context fields of a log entry. */
+type LogContext = Pick<LogEntry, "requestId" | "hookName" | "method" | "url">;
+
+function writeLog(
+  level: LogLevel,
+  message: string,
+  context: LogContext | undefined,
+  error?: unknown,
+) {
+  structuredLogger.write({
+    level,
+    message,
+    ...(error !== undefined && { error }),
+    ...context,
+    timestamp: Date.now(),
+  });
+}
+
+const logger = {
+  debug: (message: string, context?: LogContext) =>
+    writeLog("debug", message, context),
+  info: (message: string, context?: LogContext) =>
+    writeLog("info", message, context),
+  warn: (message: string, context?: LogContext) =>
+    writeLog("warn", message, context),
+  error: (message: string, error?: unknown, context?: LogContext) =>
+    writeLog("error", message, context, error),
+};
+
+/**
+ * What to do with a synchronous XMLHttpRequest that the hooks cannot answer synchronously:
+ * - `"error"`: Fail the request with a NetworkError, as a browser does for a network error.
+ * - `"pass-through"`: Send the original request natively, as if no hooks were registered.
+ */
+export type SyncXhrPolicy = "error" | "pass-through";
+
+let syncXhrPolicy: SyncXhrPolicy = "pass-through";
+
+/**
+ * Set what to do with synchronous XMLHttpRequests that the hooks cannot answer synchronously.
+ * Default is "pass-through".
+ */
+export function setSyncXhrPolicy(policy: SyncXhrPolicy) {
+  syncXhrPolicy = policy;
+}
+
+/**
+ * What to do when an XHR hook throws or rejects:
+ * - `"skip"`: Continue with the next hook, as if the hook had returned undefined.
+ * - `"pass-through"`: Skip the remaining hooks and send the request (as modified by the hooks before) to the network.
+ * - `"error"`: Fail the request like a network error. The page sees an `error` event, and fetch rejects with the error.
+ */
+export type XhrHookErrorPolicy = "skip" | "pass-through" | "error";
+
+let hookErrorPolicy: XhrHookErrorPolicy = "error";
+
+/**
+ * Set what to do when an XHR hook throws or rejects. The error is logged either way. Default is "error".
+ */
+export function setXhrHookErrorPolicy(policy: XhrHookErrorPolicy) {
+  hookErrorPolicy = policy;
+}
+
+type XhrInspectionEventBase = {
+  /** Identifies the request across its events. */
+  id: number;
+  /** Whether the request was made with XMLHttpRequest or with a hooked fetch. */
+  source: "xhr" | "fetch";
+  /** A clone of the request: as the page made it for "send", and as modified by the hooks from "dispatch" on. */
+  request: Request;
+  /** The name of the hook that handled the request, or undefined before "dispatch" and for pass-through requests. */
+  handledBy: string | undefined;
+  /** The time send() or fetch() was called, in milliseconds since the epoch. */
+  startTime: number;
+  /** The time the event was emitted, in milliseconds since the epoch. */
+  timestamp: number;
+};
+
+/** The page called send() or fetch(). Hooks have not run yet. */
+export type XhrSendEvent = XhrInspectionEventBase & { type: "send" };
+/** The hooks have settled: the request is either handled by `handledBy` or passed through. */
+export type XhrDispatchEvent = XhrInspectionEventBase & { type: "dispatch" };
+/** The status and headers of the response were received. */
+export type XhrHeadersEvent = XhrInspectionEventBase & {
+  type: "headers";
+  status: number;
+  statusText: string;
+  headers: Headers;
+};
+/** The whole response body was received. */
+export type XhrCompleteEvent = XhrInspectionEventBase & {
+  type: "complete";
+  status: number;
+  bytesReceived: number;
+  /** Milliseconds since startTime. */
+  duration: number;
+};
+/** The request ended without a complete response. */
+export type XhrErrorEvent = XhrInspectionEventBase & {
+  type: "error";
+  reason: "abort" | "timeout" | "error";
+  /** What the hook or response callback threw, if the error came from one. */
+  error: unknown;
+  bytesReceived: number;
+  /** Milliseconds since startTime. */
+  duration: number;
+};
+
+/** An XHR hook threw or rejected. What happens next depends on the XhrHookErrorPolicy. */
+export type XhrHookErrorEvent = XhrInspectionEventBase & {
+  type: "hook-error";
+  hookName: string;
+  error: unknown;
+  /** Whether the hook was disabled because it reached its `disableAfterFailures`. */
+  disabled: boolean;
+};
+
+/**
+ * An event of the lifecycle of a request. Every request emits "send", then "dispatch" once the hooks have settled,
+ * then "headers" and "complete", or "error" at any point after "send".
+ * "hook-error" is emitted before "dispatch" for each hook that failed.
+ */
+export type XhrInspectionEvent =
+  | XhrSendEvent
+  | XhrDispatchEvent
+  | XhrHeadersEvent
+  | XhrCompleteEvent
+  | XhrErrorEvent
+  | XhrHookErrorEvent;
+
+export type XhrInspectionListener = (event: XhrInspectionEvent) => void;
+
+/** The inspection state of a request, present only while someone is subscribed. */
+type XhrTrace = Omit<XhrInspectionEventBase, "timestamp"> & {
+  finished: boolean;
+};
+
+/** What emitInspectionEvent adds to the base fields of a trace. */
+type InspectionEventDetails =
+  | Pick<XhrSendEvent, "type">
+  | Pick<XhrDispatchEvent, "type">
+  | Pick<XhrHeadersEvent, "type" | "status" | "statusText" | "headers">
+  | Pick<XhrCompleteEvent, "type" | "status" | "bytesReceived">
+  | Pick<XhrErrorEvent, "type" | "reason" | "error" | "bytesReceived">
+  | Pick<XhrHookErrorEvent, "type" | "hookName" | "error" | "disabled">;
+
+const inspectionListeners = new Set<XhrInspectionListener>();
+/** Identifies requests in log entries and inspection events. */
+let nextRequestId = 1;
+
+/**
+ * Subscribe to the lifecycle events of every request that goes through the hooks,
+ * including pass-through requests and, if hookFetch was called, fetch requests.
+ * @param listener Called synchronously for each event. Errors it throws are logged and otherwise ignored.
+ * @returns A function that unsubscribes the listener.
+ */
+export function subscribeXhrInspection(
+  listener: XhrInspectionListener,
+): () => void {
+  inspectionListeners.add(listener);
+  return () => {
+    inspectionListeners.delete(listener);
+  };
+}
+
+function startTrace(
+  id: number,
+  source: XhrTrace["source"],
+  request: Request,
+  startTime: number,
+): XhrTrace | undefined {
+  if (inspectionListeners.size === 0) {
+    return undefined;
+  }
+  const trace: XhrTrace = {
+    id,
+    source,
+    request: request.clone(),
+    handledBy: undefined,
+    startTime,
+    finished: false,
+  };
+  emitInspectionEvent(trace, { type: "send" });
+  return trace;
+}
+
+function dispatchTrace(
+  trace: XhrTrace | undefined,
+  request: Request,
+  handledBy: string | undefined,
+) {
+  if (!trace) {
+    return;
+  }
+  trace.request = request.clone();
+  trace.handledBy = handledBy;
+  emitInspectionEvent(trace, { type: "dispatch" });
+}
+
+/**
+ * Emit an event for `trace` to every listener. Nothing is emitted once "complete" or "error" was.
  */
-export function setLogger(newLogger: Logger) {
-  logger = newLogger;
+function emitInspectionEvent(
+  trace: XhrTrace | undefined,
+  details: InspectionEventDetails,
+) {
+  if (!trace || trace.finished) {
+    return;
+  }
+  const timestamp = Date.now();
+  const terminal = details.type === "complete" || details.type === "error";
+  trace.finished = terminal;
+  const { finished: _, ...base } = trace;
+  for (const listener of inspectionListeners) {
+    try {
+      listener({
+        ...base,
+        request: trace.request.clone(),
+        timestamp,
+        ...details,
+        ...(terminal && { duration: timestamp - trace.startTime }),
+      } as XhrInspectionEvent);
+    } catch (error) {
+      logger.error("Inspection listener failed:", error, {
+        requestId: trace.id,
+        method: trace.request.method,
+        url: trace.request.url,
+      });
+    }
+  }
 }
 
+/**
+ * A function that takes an AbortSignal and returns a Promise<Response> to handle the request.
+ */
+export type XhrResponseCallback = (abort: AbortSignal) => Promise<Response>;
+
+/**
+ * A response that is available synchronously.
+ * Unlike an XhrResponseCallback, it can also answer synchronous XMLHttpRequests.
+ */
+export type XhrSyncResponse = {
+  /** Default is 200. */
+  status?: number;
+  /** Default is "". */
+  statusText?: string;
+  headers?: HeadersInit;
+  body?: string | BufferSource | null;
+};
+
+/**
+ * What an XhrHook decides for a request.
+ */
+export type XhrHookResult =
+  | XhrResponseCallback
+  | XhrSyncResponse
+  | Request
+  | undefined;
+
 /**
  * A hook function that can intercept XMLHttpRequests.
  * It receives a Request object and either:
- * - Returns a function that takes an AbortSignal and returns a Promise<Response> to handle the request.
+ * - Returns an XhrResponseCallback to handle the request.
+ * - Returns an XhrSyncResponse to handle the request with a response that is available at once.
+ * - Returns a modified Request, which is passed to the next hook and finally sent instead of the original request.
  * - Returns undefined to ignore the request and delegate to the next hook or the original XMLHttpRequest.
+ * - Returns a Promise of any of the above to decide asynchronously.
+ *   The original send is deferred until the Promise is settled.
  */
 export type XhrHook = (
   xhr: Request,
-) => ((abort: AbortSignal) => Promise<Response>) | undefined;
+  context: XhrHookContext,
+) => XhrHookResult | Promise<XhrHookResult>;
+
+/**
+ * Details of the request that a Request does not carry, passed to hooks.
+ */
+export type XhrHookContext = {
+  /** Whether the request was made with XMLHttpRequest or with a hooked fetch. */
+  source: "xhr" | "fetch";
+  /** False for a synchronous XMLHttpRequest. Always true for fetch. */
+  async: boolean;
+  /** The responseType of the XMLHttpRequest when send() was called. Always "" for fetch. */
+  responseType: XMLHttpRequestResponseType;
+  /** The withCredentials of the XMLHttpRequest. For fetch, whether the credentials mode is "include". */
+  withCredentials: boolean;
+  /** The username passed to open() or included in the URL, if any. */
+  username: string | undefined;
+  /** The password passed to open() or included in the URL, if any. */
+  password: string | undefined;
+};
+
+/**
+ * The outcome of running the hook chain: the request as modified by the hooks,
+ * and the response callback of the hook that handled it, if any.
+ */
+type HookChainResult = {
+  request: Request;
+  responseCallback?: XhrResponseCallback;
+  /** Set along with responseCallback when the hook answered with an XhrSyncResponse. */
+  syncResponse?: XhrSyncResponse;
+  handledBy?: string;
+  /** Set when `handledBy` failed and the "error" policy turned its error into the response callback. */
+  hookFailed?: boolean;
+};
+
+type NativeXhrMethods = Pick<
+  XMLHttpRequest,
+  "open" | "setRequestHeader" | "send"
+>;
+
+/**
+ * Information about how a response was produced, passed to response hooks.
+ */
+export type XhrResponseHookContext = {
+  /** The name of the XhrHook that handled the request, or undefined if the response came from the network. */
+  handledBy: string | undefined;
+  /** The time send() or fetch() was called, in milliseconds since the epoch. */
+  startTime: number;
+};
+
+/**
+ * A hook function that can observe and rewrite the response of a request no XhrHook handled,
+ * or of any request when inserted with `includeHooked`.
+ * It receives the Request and the Response from the network (or from the XhrHook) and either:
+ * - Returns a Response to serve to the page instead, and to pass to the next response hook.
+ * - Returns undefined to keep the response as is.
+ * - Returns a Promise of either of the above.
+ */
+export type XhrResponseHook = (
+  request: Request,
+  response: Response,
+  context: XhrResponseHookContext,
+) => Response | undefined | Promise<Response | undefined>;
+
+type RegisteredXhrHook = {
+  hook: XhrHook;
+  disableAfterFailures: number | undefined;
+  /** How many times in a row the hook threw or rejected. */
+  failures: number;
+};
+
+type RegisteredResponseHook = {
+  hook: XhrResponseHook;
+  includeHooked: boolean;
+};
+
+type HookOrdering = {
+  priority: number;
+  before: string[];
+  after: string[];
+};
+
+type RegistryEntry<T> = {
+  hook: T;
+  ordering: HookOrdering;
+  group: string | undefined;
+  /** Disabled hooks stay registered, but do not run. */
+  enabled: boolean;
+};
+
+/**
+ * A named set of hooks that keeps track of the order they run in.
+ * Hooks run by descending priority, then in insertion order,
+ * adjusted so that every `before`/`after` constraint between registered hooks holds.
+ */
+class HookRegistry<T> {
+  private registered = new Map<string, RegistryEntry<T>>();
+  private ordered: string[] | undefined;
+  private enabledEntries: [string, T][] | undefined;
+
+  /** The number of enabled hooks. */
+  get size() {
+    return this.entries().length;
+  }
+
+  has(name: string) {
+    return this.registered.has(name);
+  }
+
+  get(name: string): RegistryEntry<T> | undefined {
+    return this.registered.get(name);
+  }
+
+  set(
+    name: string,
+    hook: T,
+    ordering: HookOrdering,
+    group: string | undefined,
+  ): RegistryEntry<T> {
+    const entry = { hook, ordering, group, enabled: true };
+    this.registered.set(name, entry);
+    this.invalidate();
+    return entry;
+  }
+
+  setEnabled(entry: RegistryEntry<T>, enabled: boolean) {
+    entry.enabled = enabled;
+    this.enabledEntries = undefined;
+  }
+
+  delete(name: string) {
+    this.invalidate();
+    return this.registered.delete(name);
+  }
+
+  clear() {
+    this.registered.clear();
+    this.invalidate();
+  }
+
+  /** The enabled hooks in the order they run. */
+  entries(): [string, T][] {
+    this.enabledEntries ??= this.names().flatMap((name) => {
+      const entry = ensureNotNullish(this.registered.get(name));
+      return entry.enabled ? [[name, entry.hook] as [string, T]] : [];
+    });
+    return this.enabledEntries;
+  }
+
+  /** The names of all hooks, including disabled ones, in the order they run. */
+  names(group?: string): string[] {
+    this.ordered ??= this.computeOrder();
+    return group === undefined
+      ? this.ordered
+      : this.ordered.filter(
+          (name) => this.registered.get(name)?.group === group,
+        );
+  }
+
+  private invalidate() {
+    this.ordered = undefined;
+    this.enabledEntries = undefined;
+  }
+
+  private computeOrder(): string[] {
+    const baseOrder = [...this.registered.entries()]
+      .map(([name, { ordering }], index) => ({ name, ordering, index }))
+      .sort(
+        (a, b) =>
+          b.ordering.priority - a.ordering.priority || a.index - b.index,
+      )
+      .map(({ name }) => name);
+
+    // Edges point from a hook to the hooks that have to run after it.
+    const successors = new Map(
+      baseOrder.map((name) => [name, new Set<string>()]),
+    );
+    for (const [name, { ordering }] of this.registered) {
+      for (const other of ordering.before) {
+        successors.get(name)?.add(other);
+      }
+      for (const other of ordering.after) {
+        successors.get(other)?.add(name);
+      }
+    }
+    const predecessorCounts = new Map(baseOrder.map((name) => [name, 0]));
+    for (const [name, nexts] of successors) {
+      for (const next of nexts) {
+        if (next !== name && predecessorCounts.has(next)) {
+          predecessorCounts.set(
+            next,
+            ensureNotNullish(predecessorCounts.get(next)) + 1,
+          );
+        }
+      }
+    }
+
+    // Kahn's algorithm, always picking the ready hook that comes first in the base order.
+    const order: string[] = [];
+    const remaining = [...baseOrder];
+    while (remaining.length > 0) {
+      const readyIndex = remaining.findIndex(
+        (name) => predecessorCounts.get(name) === 0,
+      );
+      if (readyIndex === -1) {
+        logger.warn(
+          `Hook ordering constraints form a cycle between ${remaining.map((name) => `"${name}"`).join(", ")}, falling back to priority order for them.`,
+        );
+        order.push(...remaining);
+        break;
+      }
+      const [name] = remaining.splice(readyIndex, 1);
+      order.push(name);
+      for (const next of ensureNotNullish(successors.get(name))) {
+        const count = predecessorCounts.get(next);
+        if (next !== name && count !== undefined) {
+          predecessorCounts.set(next, count - 1);
+        }
+      }
+    }
+    return order;
+  }
+}
 
-const hooks = new Map<string, XhrHook>();
+const hooks = new HookRegistry<RegisteredXhrHook>();
+const responseHooks = new HookRegistry<RegisteredResponseHook>();
 const patchXhrKey = Symbol("xhrHookPatch");
 
+/**
+ * Property descriptors replaced by the patches, in the order they were replaced.
+ * `descriptor` is undefined when the property was not an own property before patching.
+ */
+const originalDescriptors: {
+  obj: object;
+  prop: PropertyKey;
+  descriptor: PropertyDescriptor | undefined;
+}[] = [];
+
+/** The global object of a window, such as the contentWindow of a same-origin iframe. */
+type Realm = Window & typeof globalThis;
+
+/**
+ * The realms whose XMLHttpRequest is patched, each with the document whose frames are watched
+ * and a function that stops watching them, if it was installed with `includeFrames`.
+ * The patchXhrKey marker on each realm's constructor tells whether that realm is patched;
+ * this map is what lets uninstallXhrHook find them again.
+ */
+const hookedRealms = new Map<
+  Realm,
+  { document: Document; unwatch: () => void } | undefined
+>();
+
+/** The fetch functions replaced by hookFetch, by realm. */
+const nativeFetches = new Map<Realm, typeof fetch>();
+
 type PatchedXMLHttpRequest = {
   [patchXhrKey]?: boolean;
 } & typeof XMLHttpRequest;
+type PatchedFetch = {
+  [patchXhrKey]?: boolean;
+} & typeof fetch;
 class PatchedXMLHttpRequestInstance {
   abortController = new AbortController();
   method: string | undefined;
   url: string | undefined;
+  /** False when open() was called with async set to false. */
+  async = true;
+  /** The realm whose XMLHttpRequest this instance was opened with. */
+  realm: Realm = window;
+  /** The username and password passed to open(), if any. */
+  username: string | undefined;
+  password: string | undefined;
+  /** Identifies the current request in log entries and inspection events. Assigned by open(). */
+  requestId: number | undefined;
+  /** The inspection state of the current request, if anyone was subscribed when it was sent. */
+  trace?: XhrTrace | undefined;
   headers: Record<string, string>;
   readyState: number | undefined;
   status: number | undefined;
   statusText: string | undefined;
   response: Response | undefined;
-  responseBufferInternal?: Uint8Array | undefined;
-  responseBuffer?: Uint8Array | undefined;
+  /** The body of the hooked response received so far, from HEADERS_RECEIVED on. */
+  responseBody?: ResponseBuffer | undefined;
   responseUrl?: string | undefined;
+  sendTime = 0;
+  /**
+   * Whether this library, rather than the native XMLHttpRequest, drives the current request:
+   * while asynchronous hooks are pending, and while a response callback is being served.
+   */
+  intercepted = false;
+  /** The MIME type set with overrideMimeType(). Unlike the response, it survives open(). */
+  overriddenMimeType?: MimeType | undefined;
+  /** The parsed document of the response, once it has been requested. */
+  responseDocument?: Document | null | undefined;
+  /** Whether the request has a body whose upload events have not finished yet. */
+  uploadPending = false;
+  /** Set on the internal XMLHttpRequest used for pass-through requests so it skips the hooks. */
+  bypassHooks = false;
+  /** Whether the response came from the network unchanged, so the browser already filtered its headers. */
+  networkResponse = false;
+
+  /** Forget the response of the previous request, so that the getters fall back to the native XMLHttpRequest. */
+  resetResponse() {
+    this.intercepted = false;
+    this.uploadPending = false;
+    this.readyState = undefined;
+    this.status = undefined;
+    this.statusText = undefined;
+    this.response = undefined;
+    this.responseBody = undefined;
+    this.responseUrl = undefined;
+    this.responseDocument = undefined;
+    this.networkResponse = false;
+  }
+}
+
+function xhrLogContext(xhr: XMLHttpRequest): LogContext {
+  const patch = getPatchedXMLHttpRequest(xhr);
+  return { requestId: patch.requestId, method: patch.method, url: patch.url };
 }
 
 const getPatchedXMLHttpRequest = (xhr: XMLHttpRequest) => {
@@ -62,15 +675,23 @@ const getPatchedXMLHttpRequest = (xhr: XMLHttpRequest) => {
   return xhrInstance[patchXhrKey];
 };
 
-function hookXhrIfNeeded() {
-  const xhr = XMLHttpRequest as PatchedXMLHttpRequest;
+function hookXhrIfNeeded(realm: Realm = window) {
+  const xhr = realm.XMLHttpRequest as PatchedXMLHttpRequest;
   if (xhr[patchXhrKey]) {
     logger.warn("XMLHttpRequest is already hooked, skipping.");
     return;
   }
 
-  logger.log("Hooking XMLHttpRequest");
+  logger.info("Hooking XMLHttpRequest");
   xhr[patchXhrKey] = true;
+  if (!hookedRealms.has(realm)) {
+    hookedRealms.set(realm, undefined);
+  }
+  const native: NativeXhrMethods = {
+    open: xhr.prototype.open,
+    setRequestHeader: xhr.prototype.setRequestHeader,
+    send: xhr.prototype.send,
+  };
   patchGetter(xhr.prototype, "readyState", (thisArg, getOriginal) => {
     return getPatchedXMLHttpRequest(thisArg).readyState ?? getOriginal();
   });
@@ -81,30 +702,41 @@ function hookXhrIfNeeded() {
     return getPatchedXMLHttpRequest(thisArg).statusText ?? getOriginal();
   });
   patchGetter(xhr.prototype, "response", (thisArg, getOriginal) => {
-    const buffer = getPatchedXMLHttpRequest(thisArg).responseBuffer;
-    if (!buffer) {
+    const patch = getPatchedXMLHttpRequest(thisArg);
+    const body = patch.responseBody;
+    if (!body) {
       return getOriginal();
     }
+    const responseType = thisArg.responseType;
+    if (responseType === "" || responseType === "text") {
+      return body.text(finalMimeType(patch).charset);
+    }
+    // As in the spec, the other response types are only available once the whole body is received.
+    if (patch.readyState !== 4) {
+      return null;
+    }
     try {
-      switch (thisArg.responseType) {
-        case "":
-        case "text":
-          return new TextDecoder().decode(buffer);
+      switch (responseType) {
         case "arraybuffer":
-          return buffer.buffer.slice(
-            buffer.byteOffset,
-            buffer.byteOffset + buffer.byteLength,
+          return body.cachedResponse(
+            responseType,
+            () => body.bytes().slice().buffer,
           );
         case "blob":
-          return new Blob([buffer]);
-        case "document": {
-          const text = new TextDecoder().decode(buffer);
-          return new DOMParser().parseFromString(text, "application/xml");
-        }
-        case "json": {
-          const text = new TextDecoder().decode(buffer);
-          return JSON.parse(text);
-        }
+          return body.cachedResponse(
+            responseType,
+            () =>
+              new Blob([body.bytes().slice()], {
+                type: finalMimeType(patch).essence,
+              }),
+          );
+        case "document":
+          return getResponseDocument(patch, "document");
+        case "json":
+          // JSON is always decoded as UTF-8, regardless of the charset.
+          return body.cachedResponse(responseType, () =>
+            JSON.parse(new TextDecoder().decode(body.bytes())),
+          );
         default:
           return null;
       }
@@ -112,14 +744,26 @@ function hookXhrIfNeeded() {
       return null;
     }
   });
+  patchGetter(xhr.prototype, "responseXML", (thisArg, getOriginal) => {
+    const patch = getPatchedXMLHttpRequest(thisArg);
+    if (!patch.responseBody) {
+      return getOriginal();
+    }
+    if (thisArg.responseType !== "" && thisArg.responseType !== "document") {
+      throw new DOMException(
+        "The value is only accessible if the object's 'responseType' is '' or 'document'.",
+        "InvalidStateError",
+      );
+    }
+    return getResponseDocument(patch, thisArg.responseType);
+  });
   patchGetter(xhr.prototype, "responseURL", (thisArg, getOriginal) => {
     return getPatchedXMLHttpRequest(thisArg).responseUrl ?? getOriginal();
   });
   patchGetter(xhr.prototype, "responseText", (thisArg, getOriginal) => {
-    if (getPatchedXMLHttpRequest(thisArg).responseBufferInternal) {
-      return new TextDecoder().decode(
-        getPatchedXMLHttpRequest(thisArg).responseBufferInternal,
-      );
+    const patch = getPatchedXMLHttpRequest(thisArg);
+    if (patch.responseBody) {
+      return patch.responseBody.text(finalMimeType(patch).charset);
     } else {
       return getOriginal();
     }
@@ -127,14 +771,29 @@ function hookXhrIfNeeded() {
 
   patchMethod(xhr.prototype, "open", (thisArg, target, ...args) => {
     const [method, url] = args;
-    logger.log(
-      `XMLHttpRequest open called with method: ${method}, url: ${url}`,
-    );
     const patch = getPatchedXMLHttpRequest(thisArg);
+    emitInspectionEvent(patch.trace, {
+      type: "error",
+      reason: "abort",
+      error: undefined,
+      bytesReceived: patch.responseBody?.length ?? 0,
+    });
+    patch.trace = undefined;
     patch.abortController.abort(); // Abort any previous request
     patch.abortController = new AbortController();
+    patch.resetResponse();
+    patch.realm = realm;
+    patch.requestId = nextRequestId++;
     patch.method = method;
     patch.url = url.toString();
+    logger.debug(
+      `XMLHttpRequest open called with method: ${method}, url: ${url}`,
+      xhrLogContext(thisArg),
+    );
+    // An omitted async means true, while an explicit undefined converts to false.
+    patch.async = args.length < 3 || Boolean(args[2]);
+    patch.username = args[3] ?? undefined;
+    patch.password = args[4] ?? undefined;
     patch.headers = {};
 
     return Reflect.apply(target, thisArg, args);
@@ -153,80 +812,1154 @@ function hookXhrIfNeeded() {
   patchMethod(
     xhr.prototype,
     "send",
-    (thisArg, target, body?: Document | BodyInit | null) => {
+    (thisArg, target, body?: Document | XMLHttpRequestBodyInit | null) => {
       const patch = getPatchedXMLHttpRequest(thisArg);
-      const request = xhrToRequest(patch);
-      for (const [name, hook] of hooks) {
-        logger.log(`Calling hook "${name}"`);
-        const responseCallback = hook(request);
-        if (responseCallback) {
-          logger.log(`Hook "${name}" is overriding the request.`);
-          startXhrWithResponseCallback(thisArg, responseCallback);
-          return;
-        } else {
-          logger.log(`Hook "${name}" did not return a response.`);
-        }
+      if (patch.bypassHooks) {
+        return Reflect.apply(target, thisArg, [body]);
+      }
+      // The native XMLHttpRequest stays OPENED while hooks are pending, and after a hooked request
+      // was aborted, so it would not catch these.
+      if (patch.intercepted || patch.readyState === 0) {
+        throw new DOMException(
+          "The object's state must be OPENED.",
+          "InvalidStateError",
+        );
+      }
+      patch.sendTime = Date.now();
+      const request = xhrToRequest(thisArg, body);
+      patch.trace = startTrace(
+        ensureNotNullish(patch.requestId),
+        "xhr",
+        request,
+        patch.sendTime,
+      );
+      if (!patch.async) {
+        return sendSync(thisArg, native, request, body);
+      }
+      const result = runHooks(
+        request,
+        xhrHookContext(thisArg),
+        patch.trace,
+        xhrLogContext(thisArg),
+      );
+      if (!(result instanceof Promise)) {
+        return sendWithHookResult(thisArg, native, request, body, result);
       }
 
-      logger.log(
-        "No hooks returned a response, proceeding with original send.",
+      logger.debug(
+        "Waiting for asynchronous hooks to settle.",
+        xhrLogContext(thisArg),
+      );
+      patch.intercepted = true;
+      const signal = patch.abortController.signal;
+      result.then(
+        (chainResult) => {
+          if (signal.aborted) {
+            logger.debug(
+              "Request was aborted while hooks were pending.",
+              xhrLogContext(thisArg),
+            );
+            return;
+          }
+          sendWithHookResult(thisArg, native, request, body, chainResult);
+        },
+        (error: unknown) => {
+          if (signal.aborted) {
+            return;
+          }
+          logger.error(
+            "Asynchronous hook failed:",
+            error,
+            xhrLogContext(thisArg),
+          );
+          startXhrWithResponseCallback(
+            thisArg,
+            () => Promise.reject(error),
+            request,
+          );
+        },
       );
-      return Reflect.apply(target, thisArg, [body]);
     },
   );
+  patchMethod(xhr.prototype, "overrideMimeType", (thisArg, target, mime) => {
+    const patch = getPatchedXMLHttpRequest(thisArg);
+    if ((patch.readyState ?? 0) >= 3) {
+      throw new DOMException(
+        "MimeType cannot be overridden when the state is LOADING or DONE.",
+        "InvalidStateError",
+      );
+    }
+    patch.overriddenMimeType = parseMimeType(mime) ?? {
+      essence: "application/octet-stream",
+      charset: undefined,
+    };
+    return Reflect.apply(target, thisArg, [mime]);
+  });
   patchMethod(xhr.prototype, "abort", (thisArg, target) => {
     const patch = getPatchedXMLHttpRequest(thisArg);
     patch.abortController.abort();
+    if (patch.intercepted) {
+      abortInterceptedXhr(thisArg);
+      return;
+    }
+    if (patch.readyState === 4) {
+      // Aborting in DONE makes the response a network error, and the native XMLHttpRequest,
+      // which never sent this request, cannot do that for the hooked response.
+      patch.resetResponse();
+      patch.readyState = 0; // UNSENT
+      return;
+    }
+    emitInspectionEvent(patch.trace, {
+      type: "error",
+      reason: "abort",
+      error: undefined,
+      bytesReceived: 0,
+    });
     return Reflect.apply(target, thisArg, []);
   });
   patchMethod(xhr.prototype, "getAllResponseHeaders", (thisArg, target) => {
     const patch = getPatchedXMLHttpRequest(thisArg);
     if (patch.response) {
-      return [...patch.response.headers.entries()]
-        .map(([k, v]) => `${k}: ${v}`)
-        .join("\r\n");
+      return exposedResponseHeaders(thisArg, patch.response)
+        .map(([k, v]) => `${k}: ${v}\r\n`)
+        .join("");
     }
     return Reflect.apply(target, thisArg, []);
   });
+  patchMethod(xhr.prototype, "getResponseHeader", (thisArg, target, name) => {
+    const patch = getPatchedXMLHttpRequest(thisArg);
+    if (patch.response) {
+      const lowerName = name.toLowerCase();
+      return (
+        exposedResponseHeaders(thisArg, patch.response).find(
+          ([k]) => k === lowerName,
+        )?.[1] ?? null
+      );
+    }
+    return Reflect.apply(target, thisArg, [name]);
+  });
 }
 
-function patchGetter<T, P extends keyof T>(
-  obj: T,
-  prop: P,
-  getter: (thisArg: T, target: () => T[P]) => T[P] | undefined,
-): void {
-  const originalDescriptor = Object.getOwnPropertyDescriptor(obj, prop);
-  if (!originalDescriptor?.get) {
-    throw new Error(`Property "${String(prop)}" does not have a getter.`);
+/**
+ * Options for installing the hooks into a realm.
+ */
+export type InstallXhrHookOptions = {
+  /**
+   * Also install into the same-origin frames of the realm, including frames added later
+   * and the documents they navigate to. Default is false.
+   */
+  includeFrames?: boolean;
+};
+
+/**
+ * Patch the XMLHttpRequest of another realm, such as the contentWindow of a same-origin iframe,
+ * so that its requests go through the same hooks and response hooks as the current realm.
+ * The current realm is patched automatically by insertXhrHook and insertXhrResponseHook.
+ * @param realm The window to install into.
+ * @param options Options for installing.
+ */
+export function installXhrHook(
+  realm: Window,
+  options: InstallXhrHookOptions = {},
+) {
+  const target = realm as Realm;
+  if (!(target.XMLHttpRequest as PatchedXMLHttpRequest)[patchXhrKey]) {
+    hookXhrIfNeeded(target);
+  }
+  const watched = hookedRealms.get(target);
+  // A frame keeps its window across navigations, so a watched realm may have a new document to watch.
+  if (options.includeFrames && watched?.document !== target.document) {
+    watched?.unwatch();
+    hookedRealms.set(target, {
+      document: target.document,
+      unwatch: watchFrames(target),
+    });
   }
-  Object.defineProperty(obj, prop, {
-    get() {
-      const target = originalDescriptor.get;
-      if (target) {
-        return getter(this, target.bind(this));
-      } else {
-        logger.warn(`Property "${String(prop)}" does not have a getter.`);
-        return undefined;
-      }
-    },
-  });
 }
-type ParametersOrNever<T> = T extends (...args: infer P) => unknown ? P : never;
-type ReturnTypeOrNever<T> = T extends (...args: never[]) => infer R ? R : never;
 
-function patchMethod<T, P extends keyof T>(
-  obj: T,
-  prop: P,
-  method: (
-    thisArg: T,
-    target: T[P],
-    ...args: ParametersOrNever<T[P]>
-  ) => ReturnTypeOrNever<T[P]>,
-): void {
+/**
+ * Install into every same-origin frame of `realm`, now and whenever a frame is added or loads a new document.
+ * A frame's document is only patched once it loads, so requests its scripts make before the load event are not hooked.
+ * Returns a function that stops watching.
+ */
+function watchFrames(realm: Realm): () => void {
+  // The realm's document changes when it navigates, so the one being watched is kept.
+  const watchedDocument = realm.document;
+  const installIntoFrame = (frame: Element) => {
+    try {
+      const frameWindow = (frame as HTMLIFrameElement).contentWindow;
+      if (frameWindow) {
+        installXhrHook(frameWindow, { includeFrames: true });
+      }
+    } catch (error) {
+      logger.warn(
+        `Cannot install into a cross-origin frame: ${(frame as HTMLIFrameElement).src} (${error})`,
+      );
+    }
+  };
+  const isFrame = (node: EventTarget | Node | null): node is Element =>
+    node instanceof realm.HTMLIFrameElement ||
+    node instanceof realm.HTMLFrameElement;
+
+  for (const frame of watchedDocument.querySelectorAll("iframe, frame")) {
+    installIntoFrame(frame);
+  }
+  const observer = new realm.MutationObserver((records) => {
+    for (const record of records) {
+      for (const node of record.addedNodes) {
+        if (isFrame(node)) {
+          installIntoFrame(node);
+        } else if (node instanceof realm.Element) {
+          node.querySelectorAll("iframe, frame").forEach(installIntoFrame);
+        }
+      }
+    }
+  });
+  observer.observe(watchedDocument, { childList: true, subtree: true });
+  // load does not bubble, but a capturing listener on the document still sees it for frames.
+  const onLoad = (event: Event) => {
+    if (isFrame(event.target)) {
+      installIntoFrame(event.target);
+    }
+  };
+  watchedDocument.addEventListener("load", onLoad, { capture: true });
+  return () => {
+    observer.disconnect();
+    watchedDocument.removeEventListener("load", onLoad, { capture: true });
+  };
+}
+
+/**
+ * Patch window.fetch so that requests made with it go through the same hooks as XMLHttpRequest.
+ * Hooks receive the Request passed to fetch, and the Response returned by their callback is returned from fetch.
+ * Response hooks also run for fetch requests that no hook handled.
+ * @param realm The window whose fetch to patch. Default is the current one.
+ */
+export function hookFetch(realm: Window = window) {
+  const target = realm as Realm;
+  const originalFetch = target.fetch as PatchedFetch;
+  if (originalFetch[patchXhrKey]) {
+    logger.warn("fetch is already hooked, skipping.");
+    return;
+  }
+
+  logger.info("Hooking fetch");
+  const patchedFetch: PatchedFetch = async (input, init) => {
+    const startTime = Date.now();
+    const request = new Request(input, init);
+    const logContext: LogContext = {
+      requestId: nextRequestId++,
+      method: request.method,
+      url: request.url,
+    };
+    logger.debug(
+      `fetch called with method: ${request.method}, url: ${request.url}`,
+      logContext,
+    );
+    const trace = startTrace(
+      ensureNotNullish(logContext.requestId),
+      "fetch",
+      request,
+      startTime,
+    );
+    try {
+      const response = await fetchWithHooks(
+        target,
+        originalFetch,
+        request,
+        startTime,
+        trace,
+        logContext,
+      );
+      return inspectFetchResponse(trace, response);
+    } catch (error) {
+      emitInspectionEvent(trace, {
+        type: "error",
+        reason:
+          error instanceof DOMException && error.name === "AbortError"
+            ? "abort"
+            : error instanceof DOMException && error.name === "TimeoutError"
+              ? "timeout"
+              : "error",
+        error,
+        bytesReceived: 0,
+      });
+      throw error;
+    }
+  };
+  patchedFetch[patchXhrKey] = true;
+  nativeFetches.set(target, originalFetch);
+  originalDescriptors.push({
+    obj: target,
+    prop: "fetch",
+    descriptor: Object.getOwnPropertyDescriptor(target, "fetch"),
+  });
+  target.fetch = patchedFetch;
+}
+
+/**
+ * Call the fetch of the current realm as it was before hookFetch, so that the request skips the hooks.
+ * Use this in hooks that forward requests to the network, since a hooked fetch would run the hooks again.
+ */
+export function fetchWithoutHooks(
+  input: RequestInfo | URL,
+  init?: RequestInit,
+): Promise<Response> {
+  const fetchFunction = nativeFetches.get(window) ?? window.fetch;
+  return Reflect.apply(fetchFunction, window, [input, init]);
+}
+
+async function fetchWithHooks(
+  realm: Realm,
+  originalFetch: typeof fetch,
+  request: Request,
+  startTime: number,
+  trace: XhrTrace | undefined,
+  logContext: LogContext,
+): Promise<Response> {
+  const chainResult = await runHooks(
+    request,
+    {
+      source: "fetch",
+      async: true,
+      responseType: "",
+      withCredentials: request.credentials === "include",
+      username: undefined,
+      password: undefined,
+    },
+    trace,
+    logContext,
+  );
+  dispatchTrace(trace, chainResult.request, chainResult.handledBy);
+  if (chainResult.responseCallback) {
+    return withResponseHooks(
+      chainResult,
+      startTime,
+      logContext,
+    )(request.signal);
+  }
+
+  logger.debug(
+    "No hooks returned a response, proceeding with original fetch.",
+    logContext,
+  );
+  const response = await Reflect.apply(originalFetch, realm, [
+    chainResult.request,
+  ]);
+  if (responseHooks.size > 0) {
+    return runResponseHooks(
+      chainResult.request,
+      response,
+      { handledBy: undefined, startTime },
+      logContext,
+    );
+  }
+  return response;
+}
+
+/**
+ * Emit the inspection events of a fetch response. The page reads the body at its own pace,
+ * so the bytes are counted as the page reads them, without keeping them.
+ * Returns the response to hand to the page.
+ */
+function inspectFetchResponse(
+  trace: XhrTrace | undefined,
+  response: Response,
+): Response {
+  if (!trace) {
+    return response;
+  }
+  emitInspectionEvent(trace, {
+    type: "headers",
+    status: response.status,
+    statusText: response.statusText,
+    headers: new Headers(response.headers),
+  });
+  if (!response.body) {
+    emitInspectionEvent(trace, {
+      type: "complete",
+      status: response.status,
+      bytesReceived: 0,
+    });
+    return response;
+  }
+  const reader = response.body.getReader();
+  let bytesReceived = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (error) {
+        emitInspectionEvent(trace, {
+          type: "error",
+          reason: "error",
+          error,
+          bytesReceived,
+        });
+        controller.error(error);
+        return;
+      }
+      if (result.done) {
+        emitInspectionEvent(trace, {
+          type: "complete",
+          status: response.status,
+          bytesReceived,
+        });
+        controller.close();
+        return;
+      }
+      bytesReceived += result.value.byteLength;
+      controller.enqueue(result.value);
+    },
+    cancel(reason) {
+      emitInspectionEvent(trace, {
+        type: "error",
+        reason: "abort",
+        error: reason,
+        bytesReceived,
+      });
+      return reader.cancel(reason);
+    },
+  });
+  const inspected = new Response(body, response);
+  // These cannot be set through the constructor.
+  for (const key of ["url", "redirected", "type"] as const) {
+    Object.defineProperty(inspected, key, { value: response[key] });
+  }
+  return inspected;
+}
+
+/**
+ * Undo every patch applied by this library, restoring the native XMLHttpRequest prototype and fetch
+ * in every realm they were installed into, and remove all hooks and response hooks.
+ * A later insertXhrHook or hookFetch patches them again.
+ */
+export function uninstallXhrHook() {
+  if (hookedRealms.size === 0 && originalDescriptors.length === 0) {
+    logger.warn("XMLHttpRequest is not hooked, skipping uninstall.");
+    return;
+  }
+
+  logger.info("Unhooking XMLHttpRequest");
+  for (const { obj, prop, descriptor } of originalDescriptors
+    .splice(0)
+    .reverse()) {
+    if (descriptor) {
+      Object.defineProperty(obj, prop, descriptor);
+    } else {
+      Reflect.deleteProperty(obj, prop);
+    }
+  }
+  for (const [realm, watched] of hookedRealms) {
+    watched?.unwatch();
+    delete (realm.XMLHttpRequest as PatchedXMLHttpRequest)[patchXhrKey];
+  }
+  hookedRealms.clear();
+  nativeFetches.clear();
+  hooks.clear();
+  responseHooks.clear();
+}
+
+/**
+ * Run the hooks in order until one of them returns a response callback.
+ * Stays synchronous as long as every hook answers synchronously,
+ * so the original send is not deferred unless an asynchronous hook is involved.
+ */
+function runHooks(
+  request: Request,
+  context: XhrHookContext,
+  trace: XhrTrace | undefined,
+  logContext: LogContext,
+  entries: [string, RegisteredXhrHook][] = hooks.entries(),
+): HookChainResult | Promise<HookChainResult> {
+  let currentRequest = request;
+  for (const [index, [name, registered]] of entries.entries()) {
+    const hookLogContext = { ...logContext, hookName: name };
+    logger.debug(`Calling hook "${name}"`, hookLogContext);
+    let result: ReturnType<XhrHook>;
+    try {
+      // Each hook gets its own clone so that reading the body in one hook
+      // does not leave it consumed for the next one.
+      result = registered.hook(currentRequest.clone(), context);
+    } catch (error) {
+      const chainResult = handleHookError(
+        name,
+        registered,
+        currentRequest,
+        error,
+        trace,
+        hookLogContext,
+      );
+      if (chainResult) {
+        return chainResult;
+      }
+      continue;
+    }
+    if (result instanceof Promise) {
+      const requestBeforeHook = currentRequest;
+      const runRemainingHooks = (chainResult: HookChainResult) =>
+        chainResult.responseCallback
+          ? chainResult
+          : runHooks(
+              chainResult.request,
+              context,
+              trace,
+              logContext,
+              entries.slice(index + 1),
+            );
+      return result.then(
+        (awaitedResult) => {
+          registered.failures = 0;
+          return runRemainingHooks(
+            applyHookResult(
+              name,
+              requestBeforeHook,
+              awaitedResult,
+              hookLogContext,
+            ),
+          );
+        },
+        (error: unknown) =>
+          handleHookError(
+            name,
+            registered,
+            requestBeforeHook,
+            error,
+            trace,
+            hookLogContext,
+          ) ??
+          runHooks(
+            requestBeforeHook,
+            context,
+            trace,
+            logContext,
+            entries.slice(index + 1),
+          ),
+      );
+    }
+    registered.failures = 0;
+    const chainResult = applyHookResult(
+      name,
+      currentRequest,
+      result,
+      hookLogContext,
+    );
+    if (chainResult.responseCallback) {
+      return chainResult;
+    }
+    currentRequest = chainResult.request;
+  }
+  return { request: currentRequest };
+}
+
+/**
+ * Report a hook that threw or rejected, disable it if it reached its `disableAfterFailures`,
+ * and apply the XhrHookErrorPolicy. Returns undefined when the chain should skip to the next hook.
+ */
+function handleHookError(
+  name: string,
+  registered: RegisteredXhrHook,
+  request: Request,
+  error: unknown,
+  trace: XhrTrace | undefined,
+  logContext: LogContext,
+): HookChainResult | undefined {
+  logger.error(`Hook "${name}" failed:`, error, logContext);
+  registered.failures++;
+  const entry = hooks.get(name);
+  const disabled =
+    registered.disableAfterFailures !== undefined &&
+    registered.failures >= registered.disableAfterFailures &&
+    entry?.hook === registered &&
+    entry.enabled;
+  if (disabled) {
+    logger.warn(
+      `Hook "${name}" failed ${registered.failures} times in a row, disabling it.`,
+      logContext,
+    );
+    hooks.setEnabled(entry, false);
+  }
+  emitInspectionEvent(trace, {
+    type: "hook-error",
+    hookName: name,
+    error,
+    disabled,
+  });
+  switch (hookErrorPolicy) {
+    case "skip":
+      return undefined;
+    case "pass-through":
+      logger.debug("Skipping the remaining hooks.", logContext);
+      return { request };
+    case "error":
+      return {
+        request,
+        responseCallback: () => Promise.reject(error),
+        handledBy: name,
+        hookFailed: true,
+      };
+  }
+}
+
+function applyHookResult(
+  name: string,
+  request: Request,
+  result: XhrHookResult,
+  logContext: LogContext,
+): HookChainResult {
+  if (result instanceof Request) {
+    logger.debug(`Hook "${name}" modified the request.`, logContext);
+    return { request: result };
+  }
+  if (typeof result === "function") {
+    logger.debug(`Hook "${name}" is overriding the request.`, logContext);
+    return { request, responseCallback: result, handledBy: name };
+  }
+  if (result) {
+    logger.debug(
+      `Hook "${name}" is overriding the request synchronously.`,
+      logContext,
+    );
+    return {
+      request,
+      responseCallback: async () => syncResponseToResponse(result),
+      syncResponse: result,
+      handledBy: name,
+    };
+  }
+  logger.debug(`Hook "${name}" did not return a response.`, logContext);
+  return { request };
+}
+
+function sendWithHookResult(
+  xhr: XMLHttpRequest,
+  native: NativeXhrMethods,
+  originalRequest: Request,
+  body: Document | XMLHttpRequestBodyInit | null | undefined,
+  chainResult: HookChainResult,
+) {
+  dispatchTrace(
+    getPatchedXMLHttpRequest(xhr).trace,
+    chainResult.request,
+    chainResult.handledBy,
+  );
+  if (chainResult.responseCallback) {
+    startXhrWithResponseCallback(
+      xhr,
+      withResponseHooks(
+        chainResult,
+        getPatchedXMLHttpRequest(xhr).sendTime,
+        xhrLogContext(xhr),
+      ),
+      chainResult.request,
+    );
+    return;
+  }
+
+  const request = chainResult.request;
+  if (request === originalRequest) {
+    sendPassThrough(xhr, native, request, body);
+    return;
+  }
+
+  logger.debug(
+    "Hooks modified the request, sending the modified request.",
+    xhrLogContext(xhr),
+  );
+  const patch = getPatchedXMLHttpRequest(xhr);
+  patch.intercepted = true;
+  const signal = patch.abortController.signal;
+  // The body of a Request can only be read asynchronously,
+  // so a modified request is always sent after the current task.
+  (request.body ? request.clone().arrayBuffer() : Promise.resolve(null)).then(
+    (modifiedBody) => {
+      if (signal.aborted) {
+        return;
+      }
+      reopenXhrWithRequest(xhr, native, request);
+      sendPassThrough(xhr, native, request, modifiedBody);
+    },
+    (error: unknown) => {
+      logger.error(
+        "Failed to read the modified request body:",
+        error,
+        xhrLogContext(xhr),
+      );
+      startXhrWithResponseCallback(xhr, () => Promise.reject(error), request);
+    },
+  );
+}
+
+/**
+ * Send a synchronous XMLHttpRequest. Only hooks that answer synchronously with an XhrSyncResponse,
+ * or no hook at all, can be honored before send() returns; anything else is left to the SyncXhrPolicy.
+ */
+function sendSync(
+  xhr: XMLHttpRequest,
+  native: NativeXhrMethods,
+  request: Request,
+  body: Document | XMLHttpRequestBodyInit | null | undefined,
+) {
+  const patch = getPatchedXMLHttpRequest(xhr);
+  const result = runHooks(
+    request,
+    xhrHookContext(xhr),
+    patch.trace,
+    xhrLogContext(xhr),
+  );
+  let unsupportedReason: string;
+  if (result instanceof Promise) {
+    // The remaining hooks still run, but their result is ignored.
+    result.catch(() => undefined);
+    unsupportedReason = "a hook answered asynchronously";
+  } else {
+    dispatchTrace(patch.trace, result.request, result.handledBy);
+    if (result.hookFailed) {
+      failSyncXhr(
+        xhr,
+        `Synchronous XMLHttpRequest to ${request.url} failed: hook "${result.handledBy}" threw.`,
+      );
+    }
+    if (result.syncResponse) {
+      if (
+        !responseHooks.entries().some(([, { includeHooked }]) => includeHooked)
+      ) {
+        serveSyncResponse(xhr, result.syncResponse);
+        return;
+      }
+      unsupportedReason = "response hooks cannot run synchronously";
+    } else if (result.responseCallback) {
+      unsupportedReason = "a hook returned an asynchronous response callback";
+    } else if (result.request !== request) {
+      unsupportedReason = "a hook modified the request";
+    } else if (responseHooks.size > 0) {
+      unsupportedReason = "response hooks cannot run synchronously";
+    } else {
+      logger.debug(
+        "No hooks returned a response, proceeding with original send.",
+        xhrLogContext(xhr),
+      );
+      sendNative(xhr, native, body);
+      return;
+    }
+  }
+
+  const message = `Synchronous XMLHttpRequest to ${request.url} cannot be hooked: ${unsupportedReason}.`;
+  if (syncXhrPolicy === "pass-through") {
+    logger.warn(`${message} Sending it without hooks.`, xhrLogContext(xhr));
+    sendNative(xhr, native, body);
+    return;
+  }
+  failSyncXhr(xhr, message);
+}
+
+/**
+ * Fail a synchronous XMLHttpRequest like a network error: the request is DONE with status 0, and send() throws.
+ */
+function failSyncXhr(xhr: XMLHttpRequest, message: string): never {
+  const patch = getPatchedXMLHttpRequest(xhr);
+  logger.error(message, undefined, xhrLogContext(xhr));
+  emitInspectionEvent(patch.trace, {
+    type: "error",
+    reason: "error",
+    error: undefined,
+    bytesReceived: 0,
+  });
+  patch.resetResponse();
+  patch.status = 0;
+  patch.statusText = "";
+  patch.readyState = 4; // DONE
+  xhr.dispatchEvent(new Event("readystatechange"));
+  throw new DOMException(message, "NetworkError");
+}
+
+/**
+ * Serve `syncResponse` to a synchronous XMLHttpRequest before send() returns.
+ * Like the spec does for synchronous requests, only the events of the end of the response are fired.
+ */
+function serveSyncResponse(xhr: XMLHttpRequest, syncResponse: XhrSyncResponse) {
+  const patch = getPatchedXMLHttpRequest(xhr);
+  const response = syncResponseToResponse(syncResponse);
+  const buffer = syncResponseBody(syncResponse);
+  patch.status = response.status;
+  patch.statusText = response.statusText;
+  patch.response = response;
+  patch.responseBody = new ResponseBuffer(buffer.byteLength);
+  patch.responseBody.append(buffer);
+  patch.responseBody.finish();
+  patch.readyState = 4; // DONE
+  logger.debug(
+    `Hook request completed with status: ${response.status}`,
+    xhrLogContext(xhr),
+  );
+  emitInspectionEvent(patch.trace, {
+    type: "headers",
+    status: response.status,
+    statusText: response.statusText,
+    headers: new Headers(response.headers),
+  });
+  emitInspectionEvent(patch.trace, {
+    type: "complete",
+    status: response.status,
+    bytesReceived: buffer.byteLength,
+  });
+  xhr.dispatchEvent(new Event("readystatechange"));
+  dispatchProgressEvent(xhr, "progress", buffer.byteLength, buffer.byteLength);
+  dispatchProgressEvent(xhr, "load", buffer.byteLength, buffer.byteLength);
+  dispatchProgressEvent(xhr, "loadend", buffer.byteLength, buffer.byteLength);
+}
+
+function syncResponseToResponse(syncResponse: XhrSyncResponse): Response {
+  const status = syncResponse.status ?? 200;
+  return new Response(
+    nullBodyStatuses.includes(status) ? null : (syncResponse.body ?? null),
+    {
+      status,
+      statusText: syncResponse.statusText ?? "",
+      headers: syncResponse.headers,
+    },
+  );
+}
+
+function syncResponseBody(syncResponse: XhrSyncResponse): Uint8Array {
+  const { body } = syncResponse;
+  if (body === undefined || body === null) {
+    return new Uint8Array(0);
+  }
+  if (typeof body === "string") {
+    return new TextEncoder().encode(body);
+  }
+  if (ArrayBuffer.isView(body)) {
+    return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+  }
+  return new Uint8Array(body);
+}
+
+function sendPassThrough(
+  xhr: XMLHttpRequest,
+  native: NativeXhrMethods,
+  request: Request,
+  body: Document | XMLHttpRequestBodyInit | null | undefined,
+) {
+  if (responseHooks.size > 0) {
+    logger.debug(
+      "No hooks returned a response, proceeding with original send through response hooks.",
+      xhrLogContext(xhr),
+    );
+    startXhrWithResponseCallback(
+      xhr,
+      async (signal) => {
+        const response = await sendWithNativeXhr(
+          getPatchedXMLHttpRequest(xhr).realm,
+          request,
+          xhr.withCredentials,
+          signal,
+        );
+        const finalResponse = await runResponseHooks(
+          request,
+          response,
+          {
+            handledBy: undefined,
+            startTime: getPatchedXMLHttpRequest(xhr).sendTime,
+          },
+          xhrLogContext(xhr),
+        );
+        getPatchedXMLHttpRequest(xhr).networkResponse =
+          finalResponse === response;
+        return finalResponse;
+      },
+      request,
+    );
+    return;
+  }
+
+  logger.debug(
+    "No hooks returned a response, proceeding with original send.",
+    xhrLogContext(xhr),
+  );
+  getPatchedXMLHttpRequest(xhr).intercepted = false;
+  sendNative(xhr, native, body);
+}
+
+/**
+ * Send `xhr` with the native send(), emitting the inspection events from its own events.
+ * The listeners go away with the abort signal, that is when the request is aborted or re-opened.
+ */
+function sendNative(
+  xhr: XMLHttpRequest,
+  native: NativeXhrMethods,
+  body: Document | XMLHttpRequestBodyInit | null | undefined,
+) {
+  const patch = getPatchedXMLHttpRequest(xhr);
+  const trace = patch.trace;
+  if (!trace) {
+    Reflect.apply(native.send, xhr, [body]);
+    return;
+  }
+  const options = { signal: patch.abortController.signal };
+  let headersEmitted = false;
+  const emitHeaders = () => {
+    if (headersEmitted) {
+      return;
+    }
+    headersEmitted = true;
+    emitInspectionEvent(trace, {
+      type: "headers",
+      status: xhr.status,
+      statusText: xhr.statusText,
+      headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+    });
+  };
+  xhr.addEventListener(
+    "readystatechange",
+    () => {
+      if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
+        emitHeaders();
+      }
+    },
+    options,
+  );
+  xhr.addEventListener(
+    "load",
+    (event) => {
+      // Synchronous requests skip the readystatechange of HEADERS_RECEIVED.
+      emitHeaders();
+      emitInspectionEvent(trace, {
+        type: "complete",
+        status: xhr.status,
+        bytesReceived: event.loaded,
+      });
+    },
+    options,
+  );
+  for (const reason of ["error", "timeout"] as const) {
+    xhr.addEventListener(
+      reason,
+      (event) =>
+        emitInspectionEvent(trace, {
+          type: "error",
+          reason,
+          error: undefined,
+          bytesReceived: event.loaded,
+        }),
+      options,
+    );
+  }
+  try {
+    Reflect.apply(native.send, xhr, [body]);
+  } catch (error) {
+    // A synchronous request reports its failure by throwing instead of firing events.
+    emitInspectionEvent(trace, {
+      type: "error",
+      reason:
+        error instanceof DOMException && error.name === "TimeoutError"
+          ? "timeout"
+          : "error",
+      error,
+      bytesReceived: 0,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Re-open `xhr` natively with the method, URL and headers of `request`.
+ * The readystatechange event fired by open() is swallowed, since the page already saw its own open().
+ */
+function reopenXhrWithRequest(
+  xhr: XMLHttpRequest,
+  native: NativeXhrMethods,
+  request: Request,
+) {
+  const swallowEvent = (event: Event) => event.stopImmediatePropagation();
+  xhr.addEventListener("readystatechange", swallowEvent, { capture: true });
+  try {
+    Reflect.apply(native.open, xhr, [request.method, request.url, true]);
+  } finally {
+    xhr.removeEventListener("readystatechange", swallowEvent, {
+      capture: true,
+    });
+  }
+
+  const patch = getPatchedXMLHttpRequest(xhr);
+  patch.method = request.method;
+  patch.url = request.url;
+  patch.headers = {};
+  for (const [key, value] of request.headers) {
+    patch.headers[key] = value;
+    Reflect.apply(native.setRequestHeader, xhr, [key, value]);
+  }
+}
+
+/**
+ * Perform `request` with a separate, unhooked XMLHttpRequest of `realm`,
+ * so that credentials and cookies behave as they would for the page's own request.
+ * The body is sent as the bytes the Request serialized, since the Content-Type copied from it
+ * carries the boundary of that serialization when the page sent a FormData.
+ */
+async function sendWithNativeXhr(
+  realm: Realm,
+  request: Request,
+  withCredentials: boolean,
+  signal: AbortSignal,
+): Promise<Response> {
+  const body = request.body ? await request.clone().arrayBuffer() : null;
+  signal.throwIfAborted();
+  const innerXhr = new realm.XMLHttpRequest();
+  getPatchedXMLHttpRequest(innerXhr).bypassHooks = true;
+  innerXhr.open(request.method, request.url);
+  for (const [key, value] of request.headers) {
+    innerXhr.setRequestHeader(key, value);
+  }
+  innerXhr.withCredentials = withCredentials;
+  innerXhr.responseType = "arraybuffer";
+
+  return new Promise<Response>((resolve, reject) => {
+    signal.addEventListener("abort", () => innerXhr.abort());
+    innerXhr.addEventListener("load", () => {
+      const response = new Response(
+        nullBodyStatuses.includes(innerXhr.status) ? null : innerXhr.response,
+        {
+          status: innerXhr.status,
+          statusText: innerXhr.statusText,
+          headers: parseResponseHeaders(innerXhr.getAllResponseHeaders()),
+        },
+      );
+      // Response.url cannot be set through the constructor.
+      Object.defineProperty(response, "url", { value: innerXhr.responseURL });
+      resolve(response);
+    });
+    innerXhr.addEventListener("error", () =>
+      reject(new TypeError("Network request failed")),
+    );
+    innerXhr.addEventListener("abort", () =>
+      reject(new DOMException("The request was aborted.", "AbortError")),
+    );
+    innerXhr.send(body);
+  });
+}
+
+const nullBodyStatuses = [101, 103, 204, 205, 304];
+
+function parseResponseHeaders(rawHeaders: string): Headers {
+  const headers = new Headers();
+  for (const line of rawHeaders.split("\r\n")) {
+    const separatorIndex = line.indexOf(":");
+    if (separatorIndex <= 0) {
+      continue;
+    }
+    headers.append(
+      line.slice(0, separatorIndex).trim(),
+      line.slice(separatorIndex + 1).trim(),
+    );
+  }
+  return headers;
+}
+
+/**
+ * Wrap the response callback of the hook that handled a request,
+ * so that response hooks registered with `includeHooked` see its response.
+ */
+function withResponseHooks(
+  chainResult: HookChainResult,
+  startTime: number,
+  logContext: LogContext,
+): XhrResponseCallback {
+  const responseCallback = ensureNotNullish(chainResult.responseCallback);
+  if (!responseHooks.entries().some(([, { includeHooked }]) => includeHooked)) {
+    return responseCallback;
+  }
+  return async (signal) =>
+    runResponseHooks(
+      chainResult.request,
+      await responseCallback(signal),
+      { handledBy: chainResult.handledBy, startTime },
+      logContext,
+    );
+}
+
+async function runResponseHooks(
+  request: Request,
+  response: Response,
+  context: XhrResponseHookContext,
+  logContext: LogContext,
+): Promise<Response> {
+  let currentResponse = response;
+  for (const [name, { hook, includeHooked }] of responseHooks.entries()) {
+    if (context.handledBy !== undefined && !includeHooked) {
+      continue;
+    }
+    const hookLogContext = { ...logContext, hookName: name };
+    logger.debug(`Calling response hook "${name}"`, hookLogContext);
+    const newResponse = await hook(
+      request.clone(),
+      currentResponse.clone(),
+      context,
+    );
+    if (newResponse) {
+      logger.debug(
+        `Response hook "${name}" replaced the response.`,
+        hookLogContext,
+      );
+      currentResponse = newResponse;
+    } else {
+      logger.debug(
+        `Response hook "${name}" kept the response.`,
+        hookLogContext,
+      );
+    }
+  }
+  return currentResponse;
+}
+
+function patchGetter<T, P extends keyof T>(
+  obj: T,
+  prop: P,
+  getter: (thisArg: T, target: () => T[P]) => T[P] | undefined,
+): void {
+  const originalDescriptor = Object.getOwnPropertyDescriptor(obj, prop);
+  if (!originalDescriptor?.get) {
+    throw new Error(`Property "${String(prop)}" does not have a getter.`);
+  }
+  originalDescriptors.push({
+    obj: obj as object,
+    prop,
+    descriptor: originalDescriptor,
+  });
+  Object.defineProperty(obj, prop, {
+    get() {
+      const target = originalDescriptor.get;
+      if (target) {
+        return getter(this, target.bind(this));
+      } else {
+        logger.warn(`Property "${String(prop)}" does not have a getter.`);
+        return undefined;
+      }
+    },
+  });
+}
+type ParametersOrNever<T> = T extends (...args: infer P) => unknown ? P : never;
+type ReturnTypeOrNever<T> = T extends (...args: never[]) => infer R ? R : never;
+
+function patchMethod<T, P extends keyof T>(
+  obj: T,
+  prop: P,
+  method: (
+    thisArg: T,
+    target: T[P],
+    ...args: ParametersOrNever<T[P]>
+  ) => ReturnTypeOrNever<T[P]>,
+): void {
   const originalMethod = obj[prop];
   if (typeof originalMethod !== "function") {
     throw new Error(`Property "${String(prop)}" is not a method.`);
   }
+  originalDescriptors.push({
+    obj: obj as object,
+    prop,
+    descriptor: Object.getOwnPropertyDescriptor(obj, prop),
+  });
   Object.defineProperty(obj, prop, {
     value: function (...args: ParametersOrNever<T[P]>) {
       return method(this, originalMethod, ...args);
@@ -235,93 +1968,581 @@ function patchMethod<T, P extends keyof T>(
 }
 
 function xhrToRequest(
-  patch: PatchedXMLHttpRequestInstance,
-  body?: BodyInit | null,
+  xhr: XMLHttpRequest,
+  body?: Document | XMLHttpRequestBodyInit | null,
 ): Request {
-  const url = new URL(patch.url || "", location.origin);
+  const patch = getPatchedXMLHttpRequest(xhr);
+  const { url, username, password } = resolveOpenedUrl(patch);
   const headers = new Headers();
   for (const [key, value] of Object.entries(patch.headers)) {
     headers.append(key, value);
   }
+  // Request rejects URLs with credentials, so they are sent as an Authorization header instead,
+  // the way the browser would authenticate with them.
+  if ((username || password) && !headers.has("Authorization")) {
+    headers.set(
+      "Authorization",
+      `Basic ${encodeBasicCredentials(username ?? "", password ?? "")}`,
+    );
+  }
+  const method = patch.method?.toUpperCase() ?? "GET";
+  // XMLHttpRequest ignores the body for GET and HEAD, while Request throws.
+  const requestBody =
+    method === "GET" || method === "HEAD"
+      ? null
+      : xhrBodyToBodyInit(patch.realm, body);
+  if (requestBody?.contentType && !headers.has("Content-Type")) {
+    headers.set("Content-Type", requestBody.contentType);
+  }
   return new Request(url.toString(), {
     method: patch.method,
     headers,
-    body: body ?? null,
+    body: requestBody?.body ?? null,
+    mode: "cors",
+    credentials: xhr.withCredentials ? "include" : "same-origin",
   });
 }
 
+/**
+ * The hook context of the request `xhr` is about to send.
+ */
+function xhrHookContext(xhr: XMLHttpRequest): XhrHookContext {
+  const patch = getPatchedXMLHttpRequest(xhr);
+  const { username, password } = resolveOpenedUrl(patch);
+  return {
+    source: "xhr",
+    async: patch.async,
+    responseType: xhr.responseType,
+    withCredentials: xhr.withCredentials,
+    username,
+    password,
+  };
+}
+
+/**
+ * The URL passed to open(), resolved against the base URL of the document like the spec does,
+ * without its credentials, and the credentials passed to open() or, failing that, included in the URL.
+ */
+function resolveOpenedUrl(patch: PatchedXMLHttpRequestInstance) {
+  const url = new URL(patch.url || "", patch.realm.document.baseURI);
+  const username =
+    patch.username ?? (decodeURIComponent(url.username) || undefined);
+  const password =
+    patch.password ?? (decodeURIComponent(url.password) || undefined);
+  url.username = "";
+  url.password = "";
+  return { url, username, password };
+}
+
+/**
+ * The credentials of the Basic authentication scheme: "username:password" in Base64 of its UTF-8 bytes.
+ */
+function encodeBasicCredentials(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Convert the body passed to XMLHttpRequest.send into something Request accepts.
+ * Request already derives the Content-Type for strings, FormData, URLSearchParams and Blobs,
+ * so only Documents need a Content-Type of their own.
+ */
+function xhrBodyToBodyInit(
+  realm: Realm,
+  body: Document | XMLHttpRequestBodyInit | null | undefined,
+): { body: BodyInit; contentType?: string } | undefined {
+  if (body === null || body === undefined) {
+    return undefined;
+  }
+  if (body instanceof realm.Document || body instanceof Document) {
+    const isHtml = body.contentType === "text/html";
+    return {
+      body: isHtml
+        ? (body.documentElement?.outerHTML ?? "")
+        : new realm.XMLSerializer().serializeToString(body),
+      contentType: isHtml
+        ? "text/html;charset=UTF-8"
+        : "application/xml;charset=UTF-8",
+    };
+  }
+  return { body };
+}
+
+/**
+ * Serve a response produced by `responseCallback` to `xhr`,
+ * firing the same sequence of events as the XMLHttpRequest spec does for a network request.
+ */
 async function startXhrWithResponseCallback(
   xhr: XMLHttpRequest,
-  responseCallback: NonNullable<ReturnType<XhrHook>>,
+  responseCallback: XhrResponseCallback,
+  request: Request,
 ) {
   const patch = getPatchedXMLHttpRequest(xhr);
+  patch.intercepted = true;
   patch.readyState = 1; // OPENED
-  logger.log(
+  logger.debug(
     `Starting XMLHttpRequest with method: ${patch.method}, url: ${patch.url}`,
+    xhrLogContext(xhr),
   );
-  xhr.dispatchEvent(new Event("readystatechange"));
+  // Once the request is aborted or re-opened, abort() or open() has taken care of the state and events,
+  // so nothing may be dispatched for this request anymore, even if the callback ignores the signal.
+  const signal = patch.abortController.signal;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  if (xhr.timeout > 0) {
+    timeoutId = setTimeout(
+      () => timeoutInterceptedXhr(xhr),
+      Math.max(0, xhr.timeout - (Date.now() - patch.sendTime)),
+    );
+    // The finally below never runs while the callback ignores the signal,
+    // and the timer must not time out a request sent after this one.
+    signal.addEventListener("abort", () => clearTimeout(timeoutId), {
+      once: true,
+    });
+  }
+  patch.uploadPending = request.body !== null && !request.bodyUsed;
+  dispatchProgressEvent(xhr, "loadstart", 0, 0);
   try {
-    const response = await responseCallback(patch.abortController.signal);
-    patch.readyState = 2; // HEADERS_RECEIVED
-    logger.log(
+    if (patch.uploadPending) {
+      // The body is handed to the callback at once, so the upload completes in a single step.
+      const uploadSize = (await request.clone().blob()).size;
+      if (signal.aborted) {
+        return;
+      }
+      dispatchProgressEvent(xhr.upload, "loadstart", 0, uploadSize);
+      dispatchProgressEvent(xhr.upload, "progress", uploadSize, uploadSize);
+      patch.uploadPending = false;
+      dispatchProgressEvent(xhr.upload, "load", uploadSize, uploadSize);
+      dispatchProgressEvent(xhr.upload, "loadend", uploadSize, uploadSize);
+    }
+
+    const response = await responseCallback(signal);
+    if (signal.aborted) {
+      return;
+    }
+    logger.debug(
       `XMLHttpRequest received headers with status: ${response.status}`,
+      xhrLogContext(xhr),
     );
     patch.status = response.status;
     patch.statusText = response.statusText;
-    xhr.dispatchEvent(new Event("loadstart"));
-    const buffer = new Uint8Array(
-      response.headers.get("Content-Length")
-        ? parseInt(ensureNotNullish(response.headers.get("Content-Length")), 10)
-        : 1024 * 1024,
-    );
-    let offset = 0;
-    const reader = response.body?.getReader();
     patch.response = response;
+    const total =
+      parseInt(response.headers.get("Content-Length") ?? "", 10) || 0;
+    const body = new ResponseBuffer(total);
+    patch.responseBody = body;
+    patch.readyState = 2; // HEADERS_RECEIVED
+    emitInspectionEvent(patch.trace, {
+      type: "headers",
+      status: response.status,
+      statusText: response.statusText,
+      headers: new Headers(response.headers),
+    });
+    xhr.dispatchEvent(new Event("readystatechange"));
+    if (signal.aborted) {
+      return;
+    }
+
+    let lastProgressTime = 0;
+    const reader = response.body?.getReader();
     if (reader) {
       while (true) {
         const { done, value } = await reader.read();
+        if (signal.aborted) {
+          reader.cancel().catch(() => undefined);
+          return;
+        }
         if (done) break;
         if (value) {
-          if (offset + value.length > buffer.length) {
-            const newBuffer = new Uint8Array(
-              (buffer.length + value.length) * 2,
-            );
-            newBuffer.set(buffer);
-            patch.responseBufferInternal = newBuffer;
-          } else {
-            patch.responseBufferInternal = buffer;
-          }
-          patch.responseBufferInternal.set(value, offset);
-          offset += value.length;
-          patch.responseBuffer = patch.responseBufferInternal.subarray(
-            0,
-            offset,
+          body.append(value);
+          patch.readyState = 3; // LOADING
+          logger.debug(
+            `XMLHttpRequest loading, received ${body.length} bytes`,
+            xhrLogContext(xhr),
           );
-          patch.readyState = 3;
-          logger.log(`XMLHttpRequest loading, received ${offset} bytes`);
           xhr.dispatchEvent(new Event("readystatechange"));
-          xhr.dispatchEvent(new ProgressEvent("progress", { loaded: offset }));
+          // The spec fires progress at most every 50ms while loading.
+          if (Date.now() - lastProgressTime >= 50) {
+            lastProgressTime = Date.now();
+            dispatchProgressEvent(xhr, "progress", body.length, total);
+          }
+          if (signal.aborted) {
+            reader.cancel().catch(() => undefined);
+            return;
+          }
         }
       }
     }
-    patch.responseBufferInternal = patch.responseBufferInternal?.subarray(
-      0,
-      offset,
-    );
+    body.finish();
 
+    dispatchProgressEvent(xhr, "progress", body.length, total);
+    if (signal.aborted) {
+      return;
+    }
     patch.readyState = 4; // DONE
+    patch.intercepted = false;
     patch.responseUrl = response.url;
-    logger.log(`Hook request completed with status: ${response.status}`);
-    xhr.dispatchEvent(new Event("load"));
+    logger.debug(
+      `Hook request completed with status: ${response.status}`,
+      xhrLogContext(xhr),
+    );
+    emitInspectionEvent(patch.trace, {
+      type: "complete",
+      status: response.status,
+      bytesReceived: body.length,
+    });
     xhr.dispatchEvent(new Event("readystatechange"));
-    xhr.dispatchEvent(new Event("loadend"));
+    dispatchProgressEvent(xhr, "load", body.length, total);
+    dispatchProgressEvent(xhr, "loadend", body.length, total);
   } catch (error) {
-    logger.error("XMLHttpRequest failed to start:", error);
-    patch.readyState = 4; // DONE
-    xhr.dispatchEvent(new Event("error"));
-    xhr.dispatchEvent(new Event("readystatechange"));
-    return;
+    if (signal.aborted) {
+      return;
+    }
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      logger.debug("Hook simulated a timeout.", xhrLogContext(xhr));
+      timeoutInterceptedXhr(xhr);
+      return;
+    }
+    logger.error("XMLHttpRequest failed to start:", error, xhrLogContext(xhr));
+    failInterceptedXhr(xhr, "error", error);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function dispatchProgressEvent(
+  target: EventTarget,
+  type: string,
+  loaded: number,
+  total: number,
+) {
+  target.dispatchEvent(
+    new ProgressEvent(type, { lengthComputable: total !== 0, loaded, total }),
+  );
+}
+
+const corsSafelistedResponseHeaders = [
+  "cache-control",
+  "content-language",
+  "content-length",
+  "content-type",
+  "expires",
+  "last-modified",
+  "pragma",
+];
+
+/**
+ * The headers of a hooked response as the page may see them, sorted and with lowercased names:
+ * Set-Cookie is never exposed, and a cross-origin response only exposes the CORS-safelisted headers
+ * and the ones listed in its Access-Control-Expose-Headers.
+ * A response that came from the network unchanged is returned as is, since the browser already filtered it.
+ */
+function exposedResponseHeaders(
+  xhr: XMLHttpRequest,
+  response: Response,
+): [string, string][] {
+  // Iterating Headers already yields lowercased names in sorted order, with values combined.
+  const headers = [...response.headers].filter(
+    ([name]) => name !== "set-cookie" && name !== "set-cookie2",
+  );
+  const patch = getPatchedXMLHttpRequest(xhr);
+  if (patch.networkResponse) {
+    return headers;
+  }
+  const { url } = resolveOpenedUrl(patch);
+  if (url.origin === patch.realm.location.origin || url.protocol === "data:") {
+    return headers;
+  }
+
+  const exposed = (response.headers.get("Access-Control-Expose-Headers") ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name !== "");
+  const exposeAll = exposed.includes("*") && !xhr.withCredentials;
+  return headers.filter(
+    ([name]) =>
+      exposeAll ||
+      corsSafelistedResponseHeaders.includes(name) ||
+      exposed.includes(name),
+  );
+}
+
+type MimeType = {
+  /** The lowercased type and subtype, without parameters. */
+  essence: string;
+  charset: string | undefined;
+};
+
+function parseMimeType(value: string): MimeType | undefined {
+  const [essence, ...parameters] = value.split(";");
+  if (!/^[^/\s]+\/[^/\s]+$/.test(essence.trim())) {
+    return undefined;
+  }
+  let charset: string | undefined;
+  for (const parameter of parameters) {
+    const [name, parameterValue] = parameter.split("=", 2);
+    if (name.trim().toLowerCase() === "charset" && parameterValue) {
+      charset = parameterValue.trim().replace(/^"(.*)"$/, "$1");
+    }
   }
+  return { essence: essence.trim().toLowerCase(), charset };
+}
+
+/**
+ * The MIME type the response is interpreted with: the one set with overrideMimeType(),
+ * or the Content-Type of the response, falling back to text/xml like the spec does.
+ */
+function finalMimeType(patch: PatchedXMLHttpRequestInstance): MimeType {
+  if (patch.overriddenMimeType) {
+    return patch.overriddenMimeType;
+  }
+  const contentType = patch.response?.headers.get("Content-Type");
+  return (
+    (contentType && parseMimeType(contentType)) || {
+      essence: "text/xml",
+      charset: undefined,
+    }
+  );
+}
+
+function isXmlMimeType(essence: string): boolean {
+  return (
+    essence === "text/xml" ||
+    essence === "application/xml" ||
+    essence.endsWith("+xml")
+  );
+}
+
+/**
+ * The body of a hooked response, received chunk by chunk.
+ * The storage grows geometrically, so appending is amortized O(1) per byte,
+ * the text is decoded incrementally as chunks arrive,
+ * and the other response types are computed once and cached.
+ */
+class ResponseBuffer {
+  private storage: Uint8Array;
+  private byteLength = 0;
+  private complete = false;
+  private decoded:
+    | {
+        charset: string | undefined;
+        decoder: TextDecoder;
+        text: string;
+        decodedLength: number;
+        flushed: boolean;
+      }
+    | undefined;
+  private responses = new Map<XMLHttpRequestResponseType, unknown>();
+
+  /**
+   * @param expectedLength The Content-Length of the response, or 0 if unknown.
+   */
+  constructor(expectedLength: number) {
+    // Content-Length comes from the response, so a bogus value must not allocate a huge buffer up front.
+    this.storage = new Uint8Array(
+      Math.min(expectedLength || 16 * 1024, 64 * 1024 * 1024),
+    );
+  }
+
+  get length() {
+    return this.byteLength;
+  }
+
+  append(chunk: Uint8Array) {
+    const required = this.byteLength + chunk.byteLength;
+    if (required > this.storage.byteLength) {
+      const grown = new Uint8Array(
+        Math.max(required, this.storage.byteLength * 2),
+      );
+      grown.set(this.bytes());
+      this.storage = grown;
+    }
+    this.storage.set(chunk, this.byteLength);
+    this.byteLength = required;
+  }
+
+  /** Mark the body as fully received, so the decoder flushes any incomplete trailing sequence. */
+  finish() {
+    this.complete = true;
+  }
+
+  /** A view of the bytes received so far. It is only valid until the next append. */
+  bytes(): Uint8Array {
+    return this.storage.subarray(0, this.byteLength);
+  }
+
+  /**
+   * The text of the bytes received so far, decoded with `charset` (UTF-8 by default).
+   * A byte order mark takes precedence over the charset, as in the spec's decode algorithm.
+   * Only the bytes received since the last call are decoded.
+   */
+  text(charset: string | undefined): string {
+    if (!this.decoded || this.decoded.charset !== charset) {
+      const bom = this.sniffBom();
+      if (bom === undefined) {
+        // Wait for enough bytes to tell whether the body starts with a byte order mark.
+        return "";
+      }
+      this.decoded = {
+        charset,
+        decoder: createDecoder(bom || charset || "utf-8"),
+        text: "",
+        decodedLength: 0,
+        flushed: false,
+      };
+    }
+    const decoded = this.decoded;
+    if (
+      decoded.decodedLength < this.byteLength ||
+      (this.complete && !decoded.flushed)
+    ) {
+      decoded.text += decoded.decoder.decode(
+        this.storage.subarray(decoded.decodedLength, this.byteLength),
+        { stream: !this.complete },
+      );
+      decoded.decodedLength = this.byteLength;
+      decoded.flushed = this.complete;
+    }
+    return decoded.text;
+  }
+
+  /**
+   * The response for `responseType`, computed by `create` on the first call.
+   * Must only be called once the body is complete.
+   */
+  cachedResponse<T>(responseType: XMLHttpRequestResponseType, create: () => T) {
+    if (!this.responses.has(responseType)) {
+      this.responses.set(responseType, create());
+    }
+    return this.responses.get(responseType) as T;
+  }
+
+  /**
+   * The encoding given by the byte order mark, "" if there is none,
+   * or undefined if the bytes so far are too few to tell.
+   */
+  private sniffBom(): string | undefined {
+    const bytes = this.bytes();
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+      return "utf-8";
+    } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return "utf-16be";
+    } else if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+      return "utf-16le";
+    }
+    const isBomPrefix =
+      (bytes.length < 3 &&
+        bytes[0] === 0xef &&
+        (bytes.length < 2 || bytes[1] === 0xbb)) ||
+      (bytes.length < 2 && (bytes[0] === 0xfe || bytes[0] === 0xff)) ||
+      bytes.length === 0;
+    return isBomPrefix && !this.complete ? undefined : "";
+  }
+}
+
+function createDecoder(label: string): TextDecoder {
+  try {
+    return new TextDecoder(label);
+  } catch {
+    logger.warn(`Unknown charset "${label}", decoding as UTF-8.`);
+    return new TextDecoder();
+  }
+}
+
+/**
+ * The document response of the spec: HTML is only parsed for responseType "document",
+ * XML is parsed for both "" and "document", and anything else (or a parse error) gives null.
+ * The document is cached, so repeated reads return the same object.
+ */
+function getResponseDocument(
+  patch: PatchedXMLHttpRequestInstance,
+  responseType: "" | "document",
+): Document | null {
+  if (patch.readyState !== 4 || !patch.responseBody) {
+    return null;
+  }
+  if (patch.responseDocument !== undefined) {
+    return patch.responseDocument;
+  }
+  const { essence, charset } = finalMimeType(patch);
+  let responseDocument: Document | null = null;
+  if (essence === "text/html" && responseType === "document") {
+    responseDocument = new patch.realm.DOMParser().parseFromString(
+      patch.responseBody.text(charset),
+      "text/html",
+    );
+  } else if (isXmlMimeType(essence)) {
+    const parsed = new patch.realm.DOMParser().parseFromString(
+      patch.responseBody.text(charset),
+      essence === "text/xml" ? "text/xml" : "application/xml",
+    );
+    responseDocument =
+      parsed.getElementsByTagName("parsererror").length > 0 ? null : parsed;
+  }
+  patch.responseDocument = responseDocument;
+  return responseDocument;
+}
+
+/**
+ * Run the abort steps of the XMLHttpRequest spec for a request driven by this library.
+ * The native XMLHttpRequest was never sent, so it would not fire any of these events by itself.
+ */
+function abortInterceptedXhr(xhr: XMLHttpRequest) {
+  const patch = getPatchedXMLHttpRequest(xhr);
+  logger.debug(
+    `Aborting hooked XMLHttpRequest to ${patch.url}`,
+    xhrLogContext(xhr),
+  );
+  failInterceptedXhr(xhr, "abort");
+  // abort() leaves the request UNSENT unless a listener above called open() again.
+  if (patch.readyState === 4) {
+    patch.readyState = 0; // UNSENT
+  }
+}
+
+/**
+ * Time out a request driven by this library: abort the signal passed to the response callback
+ * with a TimeoutError, and fire the timeout events.
+ */
+function timeoutInterceptedXhr(xhr: XMLHttpRequest) {
+  const patch = getPatchedXMLHttpRequest(xhr);
+  logger.debug(
+    `Hooked XMLHttpRequest to ${patch.url} timed out.`,
+    xhrLogContext(xhr),
+  );
+  patch.abortController.abort(
+    new DOMException("The request timed out.", "TimeoutError"),
+  );
+  failInterceptedXhr(xhr, "timeout");
+}
+
+/**
+ * Run the request error steps of the XMLHttpRequest spec: the response becomes a network error,
+ * and readystatechange, `type` and loadend are fired, on the upload too if it has not finished.
+ */
+function failInterceptedXhr(
+  xhr: XMLHttpRequest,
+  type: "abort" | "timeout" | "error",
+  error?: unknown,
+) {
+  const patch = getPatchedXMLHttpRequest(xhr);
+  emitInspectionEvent(patch.trace, {
+    type: "error",
+    reason: type,
+    error,
+    bytesReceived: patch.responseBody?.length ?? 0,
+  });
+  const uploadPending = patch.uploadPending;
+  patch.resetResponse();
+  patch.status = 0;
+  patch.statusText = "";
+  patch.readyState = 4; // DONE
+  xhr.dispatchEvent(new Event("readystatechange"));
+  if (uploadPending) {
+    dispatchProgressEvent(xhr.upload, type, 0, 0);
+    dispatchProgressEvent(xhr.upload, "loadend", 0, 0);
+  }
+  dispatchProgressEvent(xhr, type, 0, 0);
+  dispatchProgressEvent(xhr, "loadend", 0, 0);
 }
 
 /**
@@ -330,50 +2551,267 @@ async function startXhrWithResponseCallback(
 export type InsertXhrHookOptions = {
   /** What to do if a hook with the same name already exists. Default is to ignore. */
   onExists?: "replace" | "ignore" | "error";
+  /** Hooks with a higher priority run first. Hooks with the same priority run in insertion order. Default is 0. */
+  priority?: number;
+  /** Names of hooks this hook has to run before. Takes precedence over the priority. */
+  before?: string | string[];
+  /** Names of hooks this hook has to run after. Takes precedence over the priority. */
+  after?: string | string[];
+  /**
+   * Disable the hook once it has thrown or rejected this many times in a row.
+   * It can be enabled again with its handle. Default is to never disable it.
+   */
+  disableAfterFailures?: number;
+  /** A group to add the hook to, so that all hooks of the group can be enabled, disabled, removed or listed at once. */
+  group?: string;
+};
+
+/**
+ * A handle to an inserted hook, bound to that insertion: once the hook is removed or replaced,
+ * its methods do nothing and `enabled` is false.
+ */
+export type XhrHookHandle = {
+  /** The name the hook was inserted with. */
+  readonly name: string;
+  /** Whether the hook is registered and enabled. */
+  readonly enabled: boolean;
+  /** Let the hook run again. */
+  enable(): void;
+  /** Keep the hook registered, in its place in the order, but do not run it. */
+  disable(): void;
+  /** Remove the hook. */
+  remove(): void;
+  /** Same as remove(), so that the hook can be inserted with `using`. */
+  [Symbol.dispose](): void;
 };
 /**
  * Insert a new XHR hook.
  * @param name A unique name for the hook.
  * @param hook The hook function.
  * @param options Options for inserting the hook.
+ * @returns A handle to the hook. With `onExists: "ignore"`, a handle to the hook that already exists.
  */
 export function insertXhrHook(
   name: string,
   hook: XhrHook,
   options: InsertXhrHookOptions = {},
-) {
+): XhrHookHandle {
+  return insertIntoRegistry(
+    hooks,
+    "hook",
+    name,
+    {
+      hook,
+      disableAfterFailures: options.disableAfterFailures,
+      failures: 0,
+    },
+    options,
+  );
+}
+
+export function removeXhrHook(name: string): boolean {
+  return removeFromRegistry(hooks, "hook", name);
+}
+
+/**
+ * List the names of the XHR hooks in the order they run, including disabled ones.
+ * @param group Only list the hooks of this group.
+ */
+export function listXhrHooks(group?: string): string[] {
+  return [...hooks.names(group)];
+}
+
+/**
+ * Options for inserting a response hook.
+ */
+export type InsertXhrResponseHookOptions = Omit<
+  InsertXhrHookOptions,
+  "disableAfterFailures"
+> & {
+  /** Also run the response hook for responses produced by XHR hooks. Default is false. */
+  includeHooked?: boolean;
+};
+/**
+ * Insert a new response hook, which runs for requests that no XHR hook handled.
+ * @param name A unique name for the response hook.
+ * @param hook The response hook function.
+ * @param options Options for inserting the response hook.
+ * @returns A handle to the response hook. With `onExists: "ignore"`, a handle to the response hook that already exists.
+ */
+export function insertXhrResponseHook(
+  name: string,
+  hook: XhrResponseHook,
+  options: InsertXhrResponseHookOptions = {},
+): XhrHookHandle {
+  return insertIntoRegistry(
+    responseHooks,
+    "response hook",
+    name,
+    { hook, includeHooked: options.includeHooked ?? false },
+    options,
+  );
+}
+
+export function removeXhrResponseHook(name: string): boolean {
+  return removeFromRegistry(responseHooks, "response hook", name);
+}
+
+/**
+ * List the names of the response hooks in the order they run, including disabled ones.
+ * @param group Only list the response hooks of this group.
+ */
+export function listXhrResponseHooks(group?: string): string[] {
+  return [...responseHooks.names(group)];
+}
+
+/**
+ * Enable every XHR hook and response hook of `group`.
+ */
+export function enableXhrHookGroup(group: string) {
+  setGroupEnabled(group, true);
+}
+
+/**
+ * Disable every XHR hook and response hook of `group`. They stay registered, and can be enabled again.
+ */
+export function disableXhrHookGroup(group: string) {
+  setGroupEnabled(group, false);
+}
+
+/**
+ * Remove every XHR hook and response hook of `group`.
+ * @returns The number of hooks removed.
+ */
+export function removeXhrHookGroup(group: string): number {
+  logger.info(`Removing hook group "${group}"`);
+  let count = 0;
+  for (const registry of [hooks, responseHooks] as HookRegistry<unknown>[]) {
+    for (const name of registry.names(group)) {
+      registry.delete(name);
+      count++;
+    }
+  }
+  return count;
+}
+
+function setGroupEnabled(group: string, enabled: boolean) {
+  logger.info(`${enabled ? "Enabling" : "Disabling"} hook group "${group}"`);
+  for (const registry of [hooks, responseHooks] as HookRegistry<unknown>[]) {
+    for (const name of registry.names(group)) {
+      registry.setEnabled(ensureNotNullish(registry.get(name)), enabled);
+    }
+  }
+}
+
+function insertIntoRegistry<T>(
+  registry: HookRegistry<T>,
+  kind: string,
+  name: string,
+  value: T,
+  options: InsertXhrHookOptions,
+): XhrHookHandle {
   hookXhrIfNeeded();
   const computedOptions: InsertXhrHookOptions = {
     onExists: "ignore",
     ...options,
   };
 
-  if (hooks.has(name)) {
+  if (registry.has(name)) {
     if (computedOptions.onExists === "error") {
-      throw new Error(`Hook with name "${name}" already exists.`);
+      throw new Error(
+        `${capitalize(kind)} with name "${name}" already exists.`,
+      );
     } else if (computedOptions.onExists === "ignore") {
-      logger.log(`Hook with name "${name}" already exists, ignoring insert.`);
-      return;
+      logger.info(
+        `${capitalize(kind)} with name "${name}" already exists, ignoring insert.`,
+        { hookName: name },
+      );
+      return createHookHandle(
+        registry,
+        kind,
+        name,
+        ensureNotNullish(registry.get(name)),
+      );
     } else if (computedOptions.onExists === "replace") {
-      logger.log(`Replacing existing hook "${name}"`);
+      logger.info(`Replacing existing ${kind} "${name}"`, { hookName: name });
     }
   } else {
-    logger.log(`Inserting hook "${name}"`);
+    logger.info(`Inserting ${kind} "${name}"`, { hookName: name });
   }
-  hooks.set(name, hook);
+  const entry = registry.set(
+    name,
+    value,
+    {
+      priority: computedOptions.priority ?? 0,
+      before: toArray(computedOptions.before),
+      after: toArray(computedOptions.after),
+    },
+    computedOptions.group,
+  );
+  return createHookHandle(registry, kind, name, entry);
 }
 
-export function removeXhrHook(name: string): boolean {
-  if (hooks.has(name)) {
-    logger.log(`Removing hook "${name}"`);
-    hooks.delete(name);
+function createHookHandle<T>(
+  registry: HookRegistry<T>,
+  kind: string,
+  name: string,
+  entry: RegistryEntry<T>,
+): XhrHookHandle {
+  const isCurrent = () => registry.get(name) === entry;
+  const setEnabled = (enabled: boolean) => {
+    if (isCurrent() && entry.enabled !== enabled) {
+      logger.info(`${enabled ? "Enabling" : "Disabling"} ${kind} "${name}"`, {
+        hookName: name,
+      });
+      registry.setEnabled(entry, enabled);
+    }
+  };
+  const remove = () => {
+    if (isCurrent()) {
+      removeFromRegistry(registry, kind, name);
+    }
+  };
+  return {
+    name,
+    get enabled() {
+      return isCurrent() && entry.enabled;
+    },
+    enable: () => setEnabled(true),
+    disable: () => setEnabled(false),
+    remove,
+    [Symbol.dispose]: remove,
+  };
+}
+
+function removeFromRegistry<T>(
+  registry: HookRegistry<T>,
+  kind: string,
+  name: string,
+): boolean {
+  if (registry.has(name)) {
+    logger.info(`Removing ${kind} "${name}"`, { hookName: name });
+    registry.delete(name);
     return true;
   } else {
-    logger.warn(`Hook with name "${name}" does not exist, ignoring remove.`);
+    logger.warn(
+      `${capitalize(kind)} with name "${name}" does not exist, ignoring remove.`,
+      { hookName: name },
+    );
     return false;
   }
 }
 
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
 function ensureNotNullish<T>(value: T | null | undefined, message?: string): T {
   if (value === null || value === undefined) {
     throw new Error(message ?? "Value is null or undefined");
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  insertXhrHook,
+  removeXhrHook,
+  type XhrResponseCallback,
+} from "./index";
+import {
+  chunkedResponse,
+  delayedResponse,
+  errorResponse,
+  jsonResponse,
+  networkError,
+  textResponse,
+  throttledFetch,
+} from "./responses";
+import { sendXhr } from "./test-utils";
+
+describe("xhr-hook/responses", () => {
+  afterEach(() => {
+    removeXhrHook("test-responses");
+  });
+
+  it("should build JSON and text responses", async () => {
+    const json = await respondWith(jsonResponse({ ok: true }, { status: 201 }));
+    expect(json.status).toBe(201);
+    expect(json.getResponseHeader("Content-Type")).toBe("application/json");
+    expect(JSON.parse(json.responseText)).toEqual({ ok: true });
+
+    const text = await respondWith(
+      textResponse("<p>Hello</p>", {
+        headers: { "Content-Type": "text/html" },
+      }),
+    );
+    expect(text.getResponseHeader("Content-Type")).toBe("text/html");
+    expect(text.responseText).toBe("<p>Hello</p>");
+  });
+
+  it("should build error statuses and network errors", async () => {
+    const notFound = await respondWith(
+      errorResponse(404, { error: "Not Found" }),
+    );
+    expect(notFound.status).toBe(404);
+    expect(JSON.parse(notFound.responseText)).toEqual({ error: "Not Found" });
+
+    const failed = await respondWith(networkError());
+    expect(failed.status).toBe(0);
+  });
+
+  it("should stream chunks with delays", async () => {
+    const start = Date.now();
+    const loadingTexts: string[] = [];
+    const xhr = await respondWith(
+      delayedResponse(
+        20,
+        chunkedResponse(["Hello, ", { data: "world", delay: 30 }, "!"], {
+          chunkDelay: 10,
+        }),
+      ),
+      (xhr) =>
+        xhr.addEventListener("readystatechange", () => {
+          if (xhr.readyState === XMLHttpRequest.LOADING) {
+            loadingTexts.push(xhr.responseText);
+          }
+        }),
+    );
+    expect(xhr.responseText).toBe("Hello, world!");
+    expect(loadingTexts).toEqual(["Hello, ", "Hello, world", "Hello, world!"]);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(60);
+  });
+
+  it("should stop waiting when the request is aborted", async () => {
+    let signal: AbortSignal | undefined;
+    insertXhrHook("test-responses", () => (abort) => {
+      signal = abort;
+      return delayedResponse(10_000, textResponse("late"))(abort);
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com");
+    xhr.send();
+    xhr.abort();
+    expect(signal?.aborted).toBe(true);
+    expect(xhr.readyState).toBe(XMLHttpRequest.UNSENT);
+  });
+
+  it("should throttle pass-through requests", async () => {
+    const body = "x".repeat(300);
+    const start = Date.now();
+    let progressEvents = 0;
+    insertXhrHook("test-responses", (request) =>
+      throttledFetch(request, { latency: [50, 50], bandwidth: 1000 }),
+    );
+    const xhr = await sendXhr("GET", `data:text/plain,${body}`, {
+      setUp: (xhr) => {
+        xhr.onprogress = () => progressEvents++;
+      },
+    });
+    expect(xhr.responseText).toBe(body);
+    // 50ms of latency, then 300 bytes at 1000 bytes per second.
+    expect(Date.now() - start).toBeGreaterThanOrEqual(300);
+    expect(progressEvents).toBeGreaterThan(1);
+  });
+
+  it("should simulate failures of pass-through requests", async () => {
+    let fetched = false;
+    insertXhrHook("test-responses", (request) => {
+      const callback = throttledFetch(request, {
+        failureRate: 0.5,
+        random: () => 0.25,
+      });
+      return (signal) => {
+        fetched = true;
+        return callback(signal);
+      };
+    });
+    const xhr = await sendXhr("GET", "data:text/plain,hello");
+    expect(fetched).toBe(true);
+    expect(xhr.status).toBe(0);
+  });
+});
+
+function respondWith(
+  callback: XhrResponseCallback,
+  setUp?: (xhr: XMLHttpRequest) => void,
+) {
+  insertXhrHook("test-responses", () => callback, { onExists: "replace" });
+  return sendXhr("GET", "https://example.com", { setUp });
+}
@@ -0,0 +1,280 @@
+import { fetchWithoutHooks, type XhrResponseCallback } from "./index";
+
+/**
+ * A chunk of a chunked response: the data, optionally with the delay before it is sent.
+ */
+export type XhrResponseChunk =
+  | string
+  | BufferSource
+  | { data: string | BufferSource; delay?: number };
+
+/**
+ * Options for chunkedResponse.
+ */
+export type ChunkedResponseInit = ResponseInit & {
+  /** The delay before each chunk that has no delay of its own, in milliseconds. Default is 0. */
+  chunkDelay?: number;
+};
+
+/**
+ * Respond with `body` serialized as JSON, with a `Content-Type` of `application/json` unless `init` sets one.
+ * @param body The value to serialize.
+ * @param init The status and headers of the response.
+ */
+export function jsonResponse(
+  body: unknown,
+  init: ResponseInit = {},
+): XhrResponseCallback {
+  return async () =>
+    new Response(JSON.stringify(body), {
+      ...init,
+      headers: withDefaultContentType(init.headers, "application/json"),
+    });
+}
+
+/**
+ * Respond with `body`, with a `Content-Type` of `text/plain;charset=UTF-8` unless `init` sets one.
+ * @param body The text of the response.
+ * @param init The status and headers of the response.
+ */
+export function textResponse(
+  body: string,
+  init: ResponseInit = {},
+): XhrResponseCallback {
+  return async () =>
+    new Response(body, {
+      ...init,
+      headers: withDefaultContentType(init.headers, "text/plain;charset=UTF-8"),
+    });
+}
+
+/**
+ * Respond with `body` as is, with a `Content-Type` of `application/octet-stream`
+ * (or the type of the Blob) unless `init` sets one.
+ * @param body The bytes of the response.
+ * @param init The status and headers of the response.
+ */
+export function binaryResponse(
+  body: BufferSource | Blob,
+  init: ResponseInit = {},
+): XhrResponseCallback {
+  return async () =>
+    new Response(body, {
+      ...init,
+      headers: withDefaultContentType(
+        init.headers,
+        body instanceof Blob && body.type
+          ? body.type
+          : "application/octet-stream",
+      ),
+    });
+}
+
+/**
+ * Respond with an error status. The page still sees a `load` event, as for any HTTP response.
+ * @param status The status, such as 404 or 500.
+ * @param body A string is sent as text, and anything else as JSON. Default is an empty body.
+ * @param init The status text and headers of the response.
+ */
+export function errorResponse(
+  status: number,
+  body?: unknown,
+  init: Omit<ResponseInit, "status"> = {},
+): XhrResponseCallback {
+  if (body === undefined) {
+    return async () => new Response(null, { ...init, status });
+  }
+  return typeof body === "string"
+    ? textResponse(body, { ...init, status })
+    : jsonResponse(body, { ...init, status });
+}
+
+/**
+ * Fail like a network error: the page sees an `error` event and a status of 0.
+ * @param message The message of the TypeError the callback rejects with.
+ */
+export function networkError(
+  message = "Network request failed",
+): XhrResponseCallback {
+  return async () => {
+    throw new TypeError(message);
+  };
+}
+
+/**
+ * Wait `delay` milliseconds before calling `callback`.
+ * The wait ends early when the request is aborted or times out.
+ * @param delay The delay in milliseconds.
+ * @param callback The callback that produces the response.
+ */
+export function delayedResponse(
+  delay: number,
+  callback: XhrResponseCallback,
+): XhrResponseCallback {
+  return async (signal) => {
+    await wait(delay, signal);
+    return callback(signal);
+  };
+}
+
+/**
+ * Respond with a body that is streamed chunk by chunk, so the page sees `readyState` 3 and `progress` events as it arrives.
+ * The response has no `Content-Length` unless `init` sets one, like a chunked HTTP response.
+ * @param chunks The chunks of the body, each optionally with its own delay.
+ * @param init The status and headers of the response, and the default delay between chunks.
+ */
+export function chunkedResponse(
+  chunks: XhrResponseChunk[],
+  init: ChunkedResponseInit = {},
+): XhrResponseCallback {
+  const { chunkDelay = 0, ...responseInit } = init;
+  return async (signal) => {
+    let index = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (index >= chunks.length) {
+          controller.close();
+          return;
+        }
+        const chunk = chunks[index++];
+        const { data, delay } =
+          typeof chunk === "object" && "data" in chunk
+            ? chunk
+            : { data: chunk, delay: undefined };
+        await wait(delay ?? chunkDelay, signal);
+        controller.enqueue(toBytes(data));
+      },
+    });
+    return new Response(stream, responseInit);
+  };
+}
+
+/**
+ * Options for throttledFetch.
+ */
+export type ThrottledFetchOptions = {
+  /** The delay before the request is sent, in milliseconds, or a range to pick a random delay from. Default is 0. */
+  latency?: number | [min: number, max: number];
+  /** The maximum speed of the response body, in bytes per second. Default is unlimited. */
+  bandwidth?: number;
+  /** The probability, from 0 to 1, that the request fails with a network error instead of being sent. Default is 0. */
+  failureRate?: number;
+  /** The random number generator for the latency and failures. Default is Math.random. */
+  random?: () => number;
+};
+
+/**
+ * Send `request` to the network with fetch, simulating a slow or unreliable connection.
+ * The response body is re-emitted at the given bandwidth, so the page sees `progress` events as it would on a slow network.
+ * @param request The request to send, usually the one the hook received.
+ * @param options The simulated network conditions.
+ */
+export function throttledFetch(
+  request: Request,
+  options: ThrottledFetchOptions = {},
+): XhrResponseCallback {
+  const random = options.random ?? Math.random;
+  return async (signal) => {
+    const { latency = 0 } = options;
+    await wait(
+      Array.isArray(latency)
+        ? latency[0] + random() * (latency[1] - latency[0])
+        : latency,
+      signal,
+    );
+    if (random() < (options.failureRate ?? 0)) {
+      throw new TypeError("Network request failed (simulated)");
+    }
+    const response = await fetchWithoutHooks(request, { signal });
+    if (!options.bandwidth || !response.body) {
+      return response;
+    }
+    const throttled = new Response(
+      throttleStream(response.body, options.bandwidth, signal),
+      response,
+    );
+    // Response.url cannot be set through the constructor.
+    Object.defineProperty(throttled, "url", { value: response.url });
+    return throttled;
+  };
+}
+
+/**
+ * Re-emit `body` in slices of a tenth of a second's worth of bytes, each no earlier than the bandwidth allows.
+ */
+function throttleStream(
+  body: ReadableStream<Uint8Array>,
+  bytesPerSecond: number,
+  signal: AbortSignal,
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  const sliceSize = Math.max(1, Math.ceil(bytesPerSecond / 10));
+  const startTime = Date.now();
+  let sentBytes = 0;
+  let pending: Uint8Array = new Uint8Array(0);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (pending.byteLength === 0) {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        pending = value;
+      }
+      const slice = pending.subarray(0, sliceSize);
+      pending = pending.subarray(slice.byteLength);
+      sentBytes += slice.byteLength;
+      await wait(
+        startTime + (sentBytes / bytesPerSecond) * 1000 - Date.now(),
+        signal,
+      );
+      controller.enqueue(slice);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+function withDefaultContentType(
+  headers: HeadersInit | undefined,
+  contentType: string,
+): Headers {
+  const result = new Headers(headers);
+  if (!result.has("Content-Type")) {
+    result.set("Content-Type", contentType);
+  }
+  return result;
+}
+
+function toBytes(data: string | BufferSource): Uint8Array {
+  if (typeof data === "string") {
+    return new TextEncoder().encode(data);
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  return new Uint8Array(data);
+}
+
+/**
+ * Resolve after `delay` milliseconds, or reject with the reason of `signal` once it is aborted.
+ */
+function wait(delay: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { insertXhrHook, removeXhrHook } from "./index";
+import { insertXhrRoute } from "./route";
+import { sendXhr } from "./test-utils";
+
+describe("xhr-hook/route", () => {
+  afterEach(() => {
+    removeXhrHook("test-route");
+  });
+
+  it("should extract params from a path pattern", async () => {
+    insertXhrRoute(
+      "test-route",
+      { method: "GET", url: "/users/:id/posts/*" },
+      (_request, params) => async () => Response.json(params),
+    );
+
+    const { responseText } = await sendXhr(
+      "GET",
+      "https://example.com/users/42/posts/7",
+    );
+    expect(JSON.parse(responseText)).toEqual({ id: "42" });
+  });
+
+  it("should return a handle to the hook", async () => {
+    const handle = insertXhrRoute(
+      "test-route",
+      { url: "/items" },
+      () => async () => new Response("routed"),
+    );
+    using _fallback = insertXhrHook(
+      "test-fallback",
+      () => async () => new Response("fallback"),
+    );
+    handle.disable();
+    expect(
+      (await sendXhr("GET", "https://example.com/items")).responseText,
+    ).toBe("fallback");
+
+    handle.enable();
+    expect(
+      (await sendXhr("GET", "https://example.com/items")).responseText,
+    ).toBe("routed");
+  });
+
+  it("should match across segments with **", async () => {
+    insertXhrRoute(
+      "test-route",
+      { url: "https://example.com/api/**" },
+      () => async () => new Response("matched"),
+    );
+
+    const { responseText } = await sendXhr(
+      "GET",
+      "https://example.com/api/v1/items?page=2",
+    );
+    expect(responseText).toBe("matched");
+  });
+
+  it("should use named groups of a RegExp as params", async () => {
+    insertXhrRoute(
+      "test-route",
+      { url: /\/items\/(?<item>\d+)$/ },
+      (_request, params) => async () => new Response(params.item),
+    );
+
+    const { responseText } = await sendXhr(
+      "GET",
+      "https://example.com/items/123",
+    );
+    expect(responseText).toBe("123");
+  });
+
+  it("should not call the handler when the method or headers do not match", async () => {
+    let called = false;
+    insertXhrRoute(
+      "test-route",
+      {
+        method: ["POST", "PUT"],
+        url: "/graphql",
+        headers: { "Content-Type": /json/ },
+      },
+      () => {
+        called = true;
+        return undefined;
+      },
+    );
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://example.com/graphql");
+    xhr.setRequestHeader("Content-Type", "application/json");
+    xhr.send();
+    xhr.abort();
+
+    const xhr2 = new XMLHttpRequest();
+    xhr2.open("POST", "https://example.com/graphql");
+    xhr2.send("not json");
+    xhr2.abort();
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(called).toBe(false);
+
+    const response = await new Promise<boolean>((resolve) => {
+      insertXhrRoute(
+        "test-route",
+        {
+          method: "post",
+          url: "/graphql",
+          headers: { "Content-Type": "application/json" },
+        },
+        () => async () => {
+          resolve(true);
+          return new Response("{}");
+        },
+        { onExists: "replace" },
+      );
+      const xhr3 = new XMLHttpRequest();
+      xhr3.open("POST", "https://example.com/graphql");
+      xhr3.setRequestHeader("Content-Type", "application/json");
+      xhr3.send("{}");
+    });
+    expect(response).toBe(true);
+  });
+});
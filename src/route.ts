@@ -0,0 +1,208 @@
+import {
+  type InsertXhrHookOptions,
+  insertXhrHook,
+  type XhrHookContext,
+  type XhrHookHandle,
+  type XhrHookResult,
+} from "./index";
+
+/**
+ * A structural subset of the URLPattern API, so that a native URLPattern (or a polyfill) can be used as a matcher.
+ */
+export type UrlPatternLike = {
+  exec(
+    input: string,
+  ): Partial<
+    Record<
+      "protocol" | "hostname" | "port" | "pathname" | "search" | "hash",
+      { groups: Record<string, string | undefined> }
+    >
+  > | null;
+};
+
+/**
+ * A matcher for the request URL.
+ * - A string is a path pattern: `:name` captures a path segment, `*` matches within a segment and `**` matches across segments.
+ *   Patterns starting with `/` are matched against the pathname of any origin; others are matched against the origin and pathname.
+ *   The query string is never part of the match.
+ * - A RegExp is tested against the full URL, and its named groups become the params.
+ * - A URLPattern (or anything with the same `exec`) is executed against the full URL, and the groups of all components become the params.
+ */
+export type XhrRouteUrlMatcher = string | RegExp | UrlPatternLike;
+
+/**
+ * A matcher for a request header value. A function receives null when the header is absent.
+ */
+export type XhrRouteHeaderMatcher =
+  | string
+  | RegExp
+  | ((value: string | null) => boolean);
+
+/**
+ * Describes which requests a route handles. Every given condition has to match.
+ */
+export type XhrRoute = {
+  /** The method or methods to match, case-insensitively. Default is to match any method. */
+  method?: string | string[];
+  /** The URL to match. */
+  url: XhrRouteUrlMatcher;
+  /** Header values to match, keyed by case-insensitive header name. */
+  headers?: Record<string, XhrRouteHeaderMatcher>;
+};
+
+/**
+ * A handler for a matching request. It receives the params extracted from the URL
+ * and the context of the hook, and returns the same results as an XhrHook.
+ */
+export type XhrRouteHandler = (
+  request: Request,
+  params: Record<string, string>,
+  context: XhrHookContext,
+) => XhrHookResult | Promise<XhrHookResult>;
+
+/**
+ * Insert an XHR hook that only calls `handler` for requests matching `route`.
+ * The hook is registered with insertXhrHook, so it can be removed with removeXhrHook.
+ * @param name A unique name for the hook.
+ * @param route The conditions a request has to match.
+ * @param handler The handler to call for matching requests.
+ * @param options Options for inserting the hook.
+ * @returns A handle to the hook, as returned by insertXhrHook.
+ */
+export function insertXhrRoute(
+  name: string,
+  route: XhrRoute,
+  handler: XhrRouteHandler,
+  options: InsertXhrHookOptions = {},
+): XhrHookHandle {
+  const matchRoute = createXhrRouteMatcher(route);
+  return insertXhrHook(
+    name,
+    (request, context) => {
+      const params = matchRoute(request);
+      if (!params) {
+        return undefined;
+      }
+      return handler(request, params, context);
+    },
+    options,
+  );
+}
+
+/**
+ * Compile `route` into a function that returns the params of a matching request, or undefined if it does not match.
+ * This is the matching insertXhrRoute does, for building other hooks on top of it.
+ * @param route The conditions a request has to match.
+ */
+export function createXhrRouteMatcher(
+  route: XhrRoute,
+): (request: Request) => Record<string, string> | undefined {
+  const matchUrl = compileUrlMatcher(route.url);
+  const methods =
+    route.method === undefined
+      ? undefined
+      : (Array.isArray(route.method) ? route.method : [route.method]).map(
+          (method) => method.toUpperCase(),
+        );
+
+  return (request) => {
+    if (methods && !methods.includes(request.method.toUpperCase())) {
+      return undefined;
+    }
+    if (route.headers && !matchHeaders(request.headers, route.headers)) {
+      return undefined;
+    }
+    return matchUrl(request.url);
+  };
+}
+
+function compileUrlMatcher(
+  matcher: XhrRouteUrlMatcher,
+): (url: string) => Record<string, string> | undefined {
+  if (typeof matcher === "string") {
+    const regExp = pathPatternToRegExp(matcher);
+    const matchPathnameOnly = matcher.startsWith("/");
+    return (url) => {
+      const parsed = new URL(url);
+      const target = matchPathnameOnly
+        ? parsed.pathname
+        : `${parsed.origin}${parsed.pathname}`;
+      const match = regExp.exec(target);
+      return match ? definedGroups(match.groups) : undefined;
+    };
+  }
+  if (matcher instanceof RegExp) {
+    return (url) => {
+      // Reset lastIndex so that global or sticky RegExps match consistently.
+      matcher.lastIndex = 0;
+      const match = matcher.exec(url);
+      return match ? definedGroups(match.groups) : undefined;
+    };
+  }
+  return (url) => {
+    const result = matcher.exec(url);
+    if (!result) {
+      return undefined;
+    }
+    const params: Record<string, string> = {};
+    for (const component of Object.values(result)) {
+      if (component && typeof component === "object" && "groups" in component) {
+        Object.assign(params, definedGroups(component.groups));
+      }
+    }
+    return params;
+  };
+}
+
+function pathPatternToRegExp(pattern: string): RegExp {
+  let source = "";
+  const tokenizer = /\*\*|\*|:([A-Za-z_][A-Za-z0-9_]*)|[^*:]+|:/g;
+  for (const [token, paramName] of pattern.matchAll(tokenizer)) {
+    if (token === "**") {
+      source += ".*";
+    } else if (token === "*") {
+      source += "[^/]*";
+    } else if (paramName) {
+      source += `(?<${paramName}>[^/]+)`;
+    } else {
+      source += escapeRegExp(token);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function definedGroups(
+  groups: Record<string, string | undefined> | undefined,
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(groups ?? {})) {
+    if (value !== undefined) {
+      params[key] = value;
+    }
+  }
+  return params;
+}
+
+function matchHeaders(
+  headers: Headers,
+  matchers: Record<string, XhrRouteHeaderMatcher>,
+): boolean {
+  return Object.entries(matchers).every(([name, matcher]) => {
+    const value = headers.get(name);
+    if (typeof matcher === "function") {
+      return matcher(value);
+    }
+    if (value === null) {
+      return false;
+    }
+    if (matcher instanceof RegExp) {
+      matcher.lastIndex = 0;
+      return matcher.test(value);
+    }
+    return value === matcher;
+  });
+}
@@ -0,0 +1,30 @@
+/**
+ * Options for sendXhr.
+ */
+export type SendXhrOptions = {
+  /** The body to send. */
+  body?: XMLHttpRequestBodyInit;
+  /** Called after open() and before send(), e.g. to set headers or add listeners. */
+  setUp?: (xhr: XMLHttpRequest) => void;
+};
+
+/**
+ * Send an asynchronous XMLHttpRequest, and resolve with it once it has ended, whether it loaded or failed.
+ * A failed request has a status of 0.
+ * @param method The method of the request.
+ * @param url The URL of the request.
+ * @param options The body, and a function to set up the request before it is sent.
+ */
+export function sendXhr(
+  method: string,
+  url: string,
+  options: SendXhrOptions = {},
+): Promise<XMLHttpRequest> {
+  return new Promise((resolve) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    options.setUp?.(xhr);
+    xhr.addEventListener("loadend", () => resolve(xhr));
+    xhr.send(options.body);
+  });
+}
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { insertXhrHook, listXhrHooks } from "./index";
+import { jsonResponse, textResponse } from "./responses";
+import { sendXhr } from "./test-utils";
+import { createXhrMock, resetXhrHooks } from "./testing";
+
+describe("xhr-hook/testing", () => {
+  afterEach(() => {
+    resetXhrHooks();
+  });
+
+  it("should answer expected requests and track them", async () => {
+    const mock = createXhrMock()
+      .expect({ method: "GET", url: "/items" }, jsonResponse([1, 2]))
+      .expect(
+        { method: "POST", url: "/items", body: /"name":"a"/, times: 2 },
+        textResponse("created", { status: 201 }),
+      );
+
+    expect(
+      statusAndText(await sendXhr("GET", "https://example.com/items")),
+    ).toBe("200 [1,2]");
+    expect(
+      statusAndText(
+        await sendXhr("POST", "https://example.com/items", {
+          body: '{"name":"a"}',
+        }),
+      ),
+    ).toBe("201 created");
+    expect(mock.isDone()).toBe(false);
+    expect(mock.pendingExpectations()).toEqual([
+      "POST /items (made 1 of 2 times)",
+    ]);
+
+    expect(
+      statusAndText(
+        await sendXhr("POST", "https://example.com/items", {
+          body: '{"name":"a"}',
+        }),
+      ),
+    ).toBe("201 created");
+    expect(() => mock.assertDone()).not.toThrow();
+  });
+
+  it("should fail and report unmatched requests", async () => {
+    const mock = createXhrMock().expect(
+      { url: "/items" },
+      textResponse("only once"),
+    );
+
+    expect(
+      statusAndText(await sendXhr("GET", "https://example.com/items")),
+    ).toBe("200 only once");
+    expect(
+      statusAndText(await sendXhr("GET", "https://example.com/items")),
+    ).toBe("error");
+    expect(
+      statusAndText(await sendXhr("GET", "https://example.com/other")),
+    ).toBe("error");
+    expect(mock.unmatchedRequests().map((request) => request.url)).toEqual([
+      "https://example.com/items",
+      "https://example.com/other",
+    ]);
+    expect(() => mock.assertDone()).toThrowError(
+      /unmatched: GET https:\/\/example\.com\/other/,
+    );
+  });
+
+  it("should pass unmatched requests on with allowUnmocked", async () => {
+    createXhrMock("mock", { allowUnmocked: true });
+    insertXhrHook("fallback", () => async () => new Response("fallback"));
+
+    expect(
+      statusAndText(await sendXhr("GET", "https://example.com/items")),
+    ).toBe("200 fallback");
+
+    resetXhrHooks();
+    expect(listXhrHooks()).toEqual([]);
+  });
+
+  it("should expose the handle of the hook", async () => {
+    const mock = createXhrMock("mock", { allowUnmocked: true }).expect(
+      { url: "/items" },
+      textResponse("mocked"),
+    );
+    insertXhrHook("fallback", () => async () => new Response("fallback"));
+
+    mock.handle.disable();
+    expect(
+      statusAndText(await sendXhr("GET", "https://example.com/items")),
+    ).toBe("200 fallback");
+    mock.handle.enable();
+    expect(
+      statusAndText(await sendXhr("GET", "https://example.com/items")),
+    ).toBe("200 mocked");
+
+    mock.stop();
+    expect(mock.handle.enabled).toBe(false);
+    expect(listXhrHooks()).toEqual(["fallback"]);
+  });
+});
+
+function statusAndText(xhr: XMLHttpRequest) {
+  return xhr.status === 0 ? "error" : `${xhr.status} ${xhr.responseText}`;
+}
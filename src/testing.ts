@@ -0,0 +1,200 @@
+import {
+  type InsertXhrHookOptions,
+  insertXhrHook,
+  listXhrHooks,
+  listXhrResponseHooks,
+  removeXhrHook,
+  removeXhrResponseHook,
+  type XhrHookHandle,
+  type XhrHookResult,
+  type XhrResponseCallback,
+} from "./index";
+import { createXhrRouteMatcher, type XhrRoute } from "./route";
+
+/**
+ * A matcher for the request body, read as text. A function receives the body and returns whether it matches.
+ */
+export type XhrBodyMatcher = string | RegExp | ((body: string) => boolean);
+
+/**
+ * A request a test expects: the conditions of an XhrRoute, plus the body and how many times it is made.
+ */
+export type XhrExpectation = XhrRoute & {
+  /** The body to match. Default is to match any body. */
+  body?: XhrBodyMatcher;
+  /** How many times the request is expected. Default is 1. */
+  times?: number;
+};
+
+/**
+ * Options for createXhrMock.
+ */
+export type XhrMockOptions = InsertXhrHookOptions & {
+  /**
+   * Pass requests that match no expectation to the next hook (and finally the network) instead of failing them
+   * with a network error. They are recorded as unmatched either way. Default is false.
+   */
+  allowUnmocked?: boolean;
+};
+
+/**
+ * A set of expected requests, answered by an XHR hook.
+ */
+export type XhrMock = {
+  /**
+   * Expect a request, and answer it with `reply`, e.g. a builder from `@sevenc-nanashi/xhr-hook/responses`.
+   * Expectations are matched in the order they were added, and one that was made `times` times no longer matches.
+   * Returns the mock, so that calls can be chained.
+   */
+  expect(expectation: XhrExpectation, reply: XhrResponseCallback): XhrMock;
+  /** Descriptions of the expectations that were made fewer times than expected. */
+  pendingExpectations(): string[];
+  /** Clones of the requests that matched no expectation. */
+  unmatchedRequests(): Request[];
+  /** Whether every expectation was made as many times as expected, and no request was unmatched. */
+  isDone(): boolean;
+  /** Throw an Error listing the pending expectations and unmatched requests, unless the mock is done. */
+  assertDone(): void;
+  /** Remove the hook of the mock. */
+  stop(): void;
+  /** The handle of the hook of the mock, to disable and enable it, or to remove it with `using`. */
+  handle: XhrHookHandle;
+};
+
+type RegisteredExpectation = {
+  expectation: XhrExpectation;
+  matchRoute: (request: Request) => Record<string, string> | undefined;
+  reply: XhrResponseCallback;
+  times: number;
+  count: number;
+};
+
+/**
+ * Create a mock that answers the expected requests and keeps track of which ones were made.
+ * It is an XHR hook, so fetch requests go through it too if hookFetch was called.
+ * @param name A unique name for the hook of the mock.
+ * @param options Options for inserting the hook, and what to do with unmatched requests.
+ */
+export function createXhrMock(
+  name = "xhr-hook-mock",
+  options: XhrMockOptions = {},
+): XhrMock {
+  const expectations: RegisteredExpectation[] = [];
+  const unmatched: Request[] = [];
+
+  const answer = (request: Request, body: string | undefined) => {
+    const entry = expectations.find(
+      (entry) =>
+        entry.count < entry.times &&
+        entry.matchRoute(request) !== undefined &&
+        (entry.expectation.body === undefined ||
+          matchBody(entry.expectation.body, body ?? "")),
+    );
+    if (entry) {
+      entry.count++;
+      return entry.reply;
+    }
+    unmatched.push(request);
+    if (options.allowUnmocked) {
+      return undefined;
+    }
+    return async () => {
+      throw new TypeError(
+        `No expectation of mock "${name}" matches ${request.method} ${request.url}.`,
+      );
+    };
+  };
+
+  const handle = insertXhrHook(
+    name,
+    (request): XhrHookResult | Promise<XhrHookResult> => {
+      // Reading the body is asynchronous, so it is only read when an expectation needs it.
+      if (expectations.every((entry) => entry.expectation.body === undefined)) {
+        return answer(request, undefined);
+      }
+      return request
+        .clone()
+        .text()
+        .then((body) => answer(request, body));
+    },
+    { onExists: "error", ...options },
+  );
+
+  const mock: XhrMock = {
+    expect(expectation, reply) {
+      expectations.push({
+        expectation,
+        matchRoute: createXhrRouteMatcher(expectation),
+        reply,
+        times: expectation.times ?? 1,
+        count: 0,
+      });
+      return mock;
+    },
+    pendingExpectations() {
+      return expectations
+        .filter((entry) => entry.count < entry.times)
+        .map(
+          (entry) =>
+            `${describeExpectation(entry.expectation)} (made ${entry.count} of ${entry.times} times)`,
+        );
+    },
+    unmatchedRequests() {
+      return unmatched.map((request) => request.clone());
+    },
+    isDone() {
+      return mock.pendingExpectations().length === 0 && unmatched.length === 0;
+    },
+    assertDone() {
+      if (mock.isDone()) {
+        return;
+      }
+      const lines = [
+        ...mock.pendingExpectations().map((line) => `  pending: ${line}`),
+        ...unmatched.map(
+          (request) => `  unmatched: ${request.method} ${request.url}`,
+        ),
+      ];
+      throw new Error(`Mock "${name}" is not done:\n${lines.join("\n")}`);
+    },
+    stop() {
+      handle.remove();
+    },
+    handle,
+  };
+  return mock;
+}
+
+/**
+ * Remove every XHR hook and response hook, including the ones of mocks, while keeping XMLHttpRequest patched.
+ * Call this between tests, e.g. in `afterEach`.
+ */
+export function resetXhrHooks() {
+  for (const name of listXhrHooks()) {
+    removeXhrHook(name);
+  }
+  for (const name of listXhrResponseHooks()) {
+    removeXhrResponseHook(name);
+  }
+}
+
+function matchBody(matcher: XhrBodyMatcher, body: string): boolean {
+  if (typeof matcher === "function") {
+    return matcher(body);
+  }
+  if (matcher instanceof RegExp) {
+    matcher.lastIndex = 0;
+    return matcher.test(body);
+  }
+  return body === matcher;
+}
+
+function describeExpectation(expectation: XhrExpectation): string {
+  const { method, url } = expectation;
+  const methods = method === undefined ? "*" : [method].flat().join("|");
+  const urlText =
+    typeof url === "string" || url instanceof RegExp
+      ? String(url)
+      : "URLPattern";
+  return `${methods.toUpperCase()} ${urlText}`;
+}